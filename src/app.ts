@@ -8,6 +8,11 @@ import router from "./routes/index.js";
 import { WebSocketService } from './features/websockets/services/WebSocketService.js';
 import { WebSocketController } from './features/websockets/controllers/WebSocketController.js';
 import logger from './utils/logger.js';
+import { jobQueue } from './features/jobs/JobQueue.js';
+import { registerPipelineJobs } from './features/jobs/pipelineJobs.js';
+import { pipelineReconciler } from './features/jobs/PipelineReconciler.js';
+import { VideoService } from './features/events/VideoService.js';
+import storage, { LocalStorageProvider } from './lib/storage/index.js';
 
 const app = express();
 const httpServer = createServer(app);
@@ -16,8 +21,28 @@ const httpServer = createServer(app);
 const webSocketService = new WebSocketService(httpServer);
 const webSocketController = new WebSocketController(webSocketService);
 
+// Start the durable pipeline job queue (resumes jobs left over from a previous run)
+registerPipelineJobs();
+jobQueue.start();
+
+// Renders run on whichever instance claimed the job; cancels reach them over Redis
+VideoService.listenForCancellations();
+
+// Periodically re-drive work whose webhook or job got lost
+pipelineReconciler.start();
+
 // Middleware
-app.use(express.json());
+app.use(express.json({
+  // Keep the raw bytes so webhook signatures can be verified against them
+  verify: (req, res, buf) => {
+    (req as express.Request).rawBody = buf;
+  }
+}));
+
+// Serve media from disk when running with local storage instead of Spaces
+if (storage instanceof LocalStorageProvider) {
+  app.use('/media', storage.verifyRequest, express.static(storage.rootDir, { fallthrough: false }));
+}
 
 // API routes
 app.use("/api", router);
@@ -26,14 +51,22 @@ app.use("/api", router);
 app.get('/api/websocket/info', webSocketController.getInfo);
 
 // Health check
-app.get('/health', (req, res) => {
+app.get('/health', async (req, res) => {
+  let jobs: Awaited<ReturnType<typeof jobQueue.getStats>> | null = null;
+  try {
+    jobs = await jobQueue.getStats();
+  } catch (error) {
+    logger.error(`Failed to read job queue stats: ${error}`);
+  }
+
   res.json({ 
     status: 'OK', 
     timestamp: new Date(),
     websocket: {
       clients: webSocketService.getConnectedClientsCount(),
       stories: webSocketService.getActiveStories().length
-    }
+    },
+    jobs
   });
 });
 
@@ -46,6 +79,8 @@ httpServer.listen(PORT, () => {
 // Graceful shutdown
 process.on('SIGTERM', () => {
   logger.info('SIGTERM received, shutting down gracefully');
+  jobQueue.stop();
+  pipelineReconciler.stop();
   webSocketService.cleanup();
   httpServer.close(() => {
     logger.info('Server closed');
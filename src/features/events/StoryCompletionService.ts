@@ -1,5 +1,10 @@
 import prisma from "../../lib/prisma.js";
 import logger from "../../utils/logger.js";
+import { jobQueue, JobTypes } from "../jobs/JobQueue.js";
+import { StoryStatusService } from "../story/services/StoryStatusService.js";
+import type { CoverJob, VideoJob } from "../jobs/types/index.js";
+
+const storyStatusService = new StoryStatusService();
 
 export class StoryCompletionService {
   private static completionChecks = new Set<string>(); // Prevent duplicate checks
@@ -8,7 +13,7 @@ export class StoryCompletionService {
   private static readonly MIN_IMAGE_SUCCESS_RATE = 0.90;
 
   // Image pipeline statuses
-  private static readonly NON_TERMINAL_STATUSES = ['queued', 'pending', 'generating'];
+  private static readonly NON_TERMINAL_STATUSES = ['queued', 'pending', 'generating', 'processing'];
   private static readonly TERMINAL_FAILED_STATUSES = ['failed', 'terminal_failed']; // adjust if you only use 'failed'
 
   /**
@@ -43,6 +48,11 @@ export class StoryCompletionService {
         return;
       }
 
+      if (story.status === 'cancelled') {
+        logger.info(`Story was cancelled, skipping completion: ${storyId}`);
+        return;
+      }
+
       // Check 1: Audio completed?
       const hasAudio = await this.checkAudioCompletion(storyId);
       if (!hasAudio) {
@@ -193,18 +203,15 @@ export class StoryCompletionService {
   }
 
   /**
-   * Mark the story as completed
+   * Mark the story's assets as complete; it moves on to video rendering
    */
   private async markStoryCompleted(storyId: string): Promise<void> {
     try {
-      await prisma.story.update({
-        where: { id: storyId },
-        data: { 
-          status: 'audio_completed'
-        }
+      await storyStatusService.transition(storyId, 'rendering', {
+        reason: 'Audio, images and music ready'
       });
 
-      logger.info(`✅ Story marked as completed: ${storyId}`);
+      logger.info(`✅ Story assets completed, rendering: ${storyId}`);
     } catch (error) {
       logger.error(`Error marking story as completed: ${error}`);
       throw error;
@@ -217,20 +224,20 @@ export class StoryCompletionService {
   private async triggerNextPhase(storyId: string): Promise<void> {
     try {
       logger.info(`Triggering video generation for story: ${storyId}`);
-      
-      // Import and trigger video generation
-      const { VideoService } = await import("./VideoService.js");
-      const videoService = new VideoService();
-      
-      // Fire-and-forget video generation
-      videoService
-        .generateVideo(storyId)
-        .then((videoUrl) => {
-          logger.info(`🎬 Video generation completed for story ${storyId}: ${videoUrl}`);
-        })
-        .catch((err) => {
-          logger.error(`Video generation failed for story ${storyId}: ${err}`);
-        });
+
+      // Queue video generation; the stable job ID keeps repeated completion checks from rendering twice
+      await jobQueue.enqueue<VideoJob>(
+        JobTypes.VIDEO,
+        { storyId },
+        { jobId: `${JobTypes.VIDEO}:${storyId}` }
+      );
+
+      // The cover is drawn from the finished shots alongside the render
+      await jobQueue.enqueue<CoverJob>(
+        JobTypes.COVER,
+        { storyId },
+        { jobId: `${JobTypes.COVER}:${storyId}` }
+      );
       
     } catch (error) {
       logger.error(`Error triggering next phase for ${storyId}: ${error}`);
@@ -238,6 +245,78 @@ export class StoryCompletionService {
     }
   }
 
+  /**
+   * Re-render the video of a story that was already rendered, after one of its shots changed.
+   * A render in flight may have loaded the old shot already, so the story is rendered again
+   * once it finishes. Stories that haven't been rendered yet pick the change up in their
+   * normal render. Returns true if a re-render was queued.
+   */
+  async requestRerender(storyId: string, reason: string): Promise<boolean> {
+    const story = await prisma.story.findUnique({
+      where: { id: storyId },
+      select: { status: true, video: true, video_url: true }
+    });
+
+    if (!story?.video) {
+      return false;
+    }
+
+    if (story.status === 'rendering') {
+      await prisma.story.update({
+        where: { id: storyId },
+        data: { rerender_pending: true }
+      });
+      logger.info(`Story ${storyId} is rendering, re-rendering once it finishes: ${reason}`);
+      return true;
+    }
+
+    const rendered =
+      story.status === 'completed' ||
+      story.status === 'do_completed' ||
+      (story.status === 'failed' && !!story.video_url);
+
+    if (!rendered) {
+      return false;
+    }
+
+    await storyStatusService.transition(storyId, 'rendering', { reason });
+    await this.triggerNextPhase(storyId);
+    return true;
+  }
+
+  /**
+   * Start the re-render requested while the story's last render was running.
+   * Called by the video job after the render; returns true if one was queued.
+   */
+  async rerenderIfPending(storyId: string): Promise<boolean> {
+    // Claim the request, so it is only acted on once
+    const { count } = await prisma.story.updateMany({
+      where: { id: storyId, rerender_pending: true },
+      data: { rerender_pending: false }
+    });
+
+    if (count === 0) {
+      return false;
+    }
+
+    await storyStatusService.transition(storyId, 'rendering', {
+      reason: 'Shot changed while the video was rendering'
+    });
+
+    // The finished render's job still holds the stable video job ID
+    await jobQueue.enqueue<VideoJob>(
+      JobTypes.VIDEO,
+      { storyId },
+      { jobId: `${JobTypes.VIDEO}:${storyId}:${Date.now()}` }
+    );
+    await jobQueue.enqueue<CoverJob>(
+      JobTypes.COVER,
+      { storyId },
+      { jobId: `${JobTypes.COVER}:${storyId}` }
+    );
+    return true;
+  }
+
   /**
    * Get completion status summary for a story
    */
@@ -1,53 +1,118 @@
 import prisma from "../../lib/prisma.js";
 import axios from "axios";
 import logger from "../../utils/logger.js";
-import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
+import storage, { fetchMedia } from "../../lib/storage/index.js";
 import crypto from "crypto";
 import ffmpeg from "fluent-ffmpeg";
 import fs from "fs";
 import path from "path";
-
-import type { SceneData, ImageData, VideoAssets } from "./types/index.js";
+import type { Redis } from "ioredis";
+import redis from "../../lib/redis.js";
+
+import { StoryStatusService, StoryCancelledError } from "../story/services/StoryStatusService.js";
+import { StoryMediaService } from "../story/services/StoryMediaService.js";
+import { CaptionService, DEFAULT_CAPTION_OPTIONS } from "../story/services/CaptionService.js";
+import { MotionService } from "../story/services/MotionService.js";
+import { LoudnessService, LOUDNESS_TARGETS } from "../story/services/LoudnessService.js";
+import type {
+  SceneData, ImageData, VideoAssets, CaptionTrack, ImageTiming, RenderProfile, HighlightClip, HighlightRenderResult
+} from "./types/index.js";
+import type { CoverUrls, RenderProfileName } from "../story/types/index.js";
+
+const storyStatusService = new StoryStatusService();
+const storyMediaService = new StoryMediaService();
+const captionService = new CaptionService();
+const motionService = new MotionService();
+const loudnessService = new LoudnessService();
+
+// Cancelled story IDs are published here, so the instance running the render kills it
+const RENDER_CANCEL_CHANNEL = 'saga:render:cancel';
+
+// Cloudflare fetches the video asynchronously, so its copy URL must outlive the request
+const STREAM_COPY_URL_TTL_SEC = 6 * 60 * 60;
 
 // ---- Timing constants (single source of truth) ----
 const INTRO_FADE_SEC = 5;        // fade-in duration for audio/music
 const OUTRO_FADE_SEC = 10;       // video/music fade-out length
 // Visual/audio pre-roll before voice starts
-const INTRO_PAD_SEC = 5;         // seconds of image+music before voice
+export const INTRO_PAD_SEC = 5;        // seconds of image+music before voice
 
 // ---- Output frame geometry ----
-const OUTPUT_WIDTH = 1920;
-const OUTPUT_HEIGHT = 1080;
-// Choose how 3:2 images (e.g., 1536x1024) fit into 16:9 output:
-//  - 'pad'   : letterbox (no crop, black bars)
-//  - 'cover' : center-crop to fill frame (no bars)
-const VIDEO_FIT_MODE = (process.env.VIDEO_FIT_MODE || 'cover').toLowerCase();
+// Choose how 3:2 images (e.g., 1536x1024) fit into 16:9 output ('pad' or 'cover').
+// Vertical and square frames always crop, letterboxing would leave most of the frame black.
+const LANDSCAPE_FIT_MODE = (process.env.VIDEO_FIT_MODE || 'cover').toLowerCase() === 'pad' ? 'pad' : 'cover';
+
+export const RENDER_PROFILES: Record<RenderProfileName, RenderProfile> = {
+  landscape_1080p: { name: 'landscape_1080p', width: 1920, height: 1080, fit: LANDSCAPE_FIT_MODE },
+  vertical_1080p: { name: 'vertical_1080p', width: 1080, height: 1920, fit: 'cover' }, // Shorts/Reels
+  square_1080p: { name: 'square_1080p', width: 1080, height: 1080, fit: 'cover' },
+  landscape_4k: { name: 'landscape_4k', width: 3840, height: 2160, fit: LANDSCAPE_FIT_MODE }
+};
+export const DEFAULT_RENDER_PROFILE: RenderProfileName = 'landscape_1080p';
+
+// Caption sizes are given for a 1080-pixel frame and scaled with the shorter side
+const CAPTION_REFERENCE_SIZE = 1080;
+const CAPTION_REFERENCE_CHARS_PER_LINE = 42; // at 1920 pixels wide
+
+// ---- Highlight clips ----
+const HIGHLIGHT_PROFILE: RenderProfileName = 'vertical_1080p';
+const HIGHLIGHT_TITLE_SEC = 2.5; // title card before the voice starts
+const HIGHLIGHT_TAIL_SEC = 1;    // after the last word, while the clip fades out
+const HIGHLIGHT_FADE_SEC = 0.5;
+
+// ---- Audiograms ----
+const AUDIOGRAM_FADE_SEC = 1;
+
+const OUTPUT_FPS = 30;
+// Shots are upscaled by this factor before zoompan so slow motion doesn't jitter,
+// unless that would take them past 4K
+const MOTION_SUPERSAMPLE = 2;
+const MAX_MOTION_PIXELS = 3840 * 2160;
 
 export class VideoService {
-  private s3Client: S3Client;
-
-  constructor() {
-    this.s3Client = new S3Client({
-      endpoint: process.env.DO_SPACES_ENDPOINT!,
-      region: process.env.DO_SPACES_REGION || "sfo3",
-      credentials: {
-        accessKeyId: process.env.DO_SPACES_KEY!,
-        secretAccessKey: process.env.DO_SPACES_SECRET!,
-      },
+  // Running ffmpeg commands per render temp directory, so a cancelled story's render can be killed
+  private static activeCommands = new Map<string, Set<ffmpeg.FfmpegCommand>>();
+  // Renders killed by a cancel; any ffmpeg command they start afterwards fails right away
+  private static cancelledRenders = new Set<string>();
+  private static cancelSubscriber: Redis | null = null;
+
+  /**
+   * Kill this instance's part of renders cancelled on any instance. Called once at startup.
+   */
+  static listenForCancellations(): void {
+    if (VideoService.cancelSubscriber) return;
+
+    // A subscribed connection can't run other commands, so it gets its own
+    const subscriber = redis.duplicate();
+    subscriber.on('message', (_channel: string, storyId: string) => {
+      VideoService.killRender(VideoService.getTempDir(storyId));
     });
+    subscriber.subscribe(RENDER_CANCEL_CHANNEL).catch((err) =>
+      logger.error(`Failed to subscribe to render cancellations: ${err}`)
+    );
+    VideoService.cancelSubscriber = subscriber;
   }
 
   /**
    * Main method to generate video for a completed story
    */
   async generateVideo(storyId: string): Promise<string> {
-    const tempDir = path.join(process.cwd(), "temp", `video_${storyId}`);
+    const tempDir = VideoService.getTempDir(storyId);
 
     try {
       logger.info(`Starting video generation for story: ${storyId}`);
+      await storyStatusService.assertNotCancelled(storyId);
 
       // Create temp directory
       fs.mkdirSync(tempDir, { recursive: true });
+      // Registered before the first ffmpeg command, so a cancel arriving while assets download still stops it
+      VideoService.activeCommands.set(tempDir, new Set());
+
+      // Shot changes made before this point are in this render
+      await prisma.story.update({
+        where: { id: storyId },
+        data: { rerender_pending: false }
+      });
 
       // 1. Collect all video assets
       const assets = await this.collectVideoAssets(storyId);
@@ -56,7 +121,7 @@ export class VideoService {
       await this.downloadAssets(assets, tempDir);
 
       // 3. Get actual audio duration
-      const audioDuration = await this.getAudioDuration(assets.finalAudioPath!);
+      const audioDuration = await this.getMediaDuration(assets.finalAudioPath!);
       logger.info(`Voice audio duration: ${audioDuration}s`);
 
       // 4. Calculate timing for each image
@@ -69,45 +134,235 @@ export class VideoService {
         tempDir
       );
 
-      // 6. Generate video using FFmpeg (no subtitles)
-      const videoPath = await this.createVideo(
-        assets,
-        imageTiming,
-        processedMusicPath,
-        tempDir
-      );
-
-      // 7. Upload final video to Spaces
-      const videoUrl = await this.uploadVideo(videoPath, storyId);
-
-      // 8. Update story with video URL and status
-      await prisma.story.update({
-        where: { id: storyId },
-        data: { 
-          video_url: videoUrl,
-          status: 'do_completed'
+      // 6. Render and upload every requested profile; the first is the story's main video
+      const renditionUrls: string[] = [];
+      let loudness: number | null = null;
+      for (const profile of assets.renderProfiles) {
+        // Write the caption file, if the story has captions
+        const captionTrack = this.prepareCaptions(assets.subtitles, assets.captionOptions, tempDir, profile, INTRO_PAD_SEC);
+
+        // Generate video using FFmpeg
+        const rendered = await this.createVideo(
+          assets,
+          imageTiming,
+          processedMusicPath,
+          tempDir,
+          captionTrack,
+          profile
+        );
+
+        // Upload the rendition to media storage
+        await storyStatusService.assertNotCancelled(storyId);
+        const renditionUrl = await this.uploadVideo(rendered.videoPath, storyId, profile.name);
+        await this.saveRendition(storyId, profile, renditionUrl, await this.getMediaDuration(rendered.videoPath), rendered.loudness);
+        if (renditionUrls.length === 0) {
+          loudness = rendered.loudness; // the main video's
         }
+        renditionUrls.push(renditionUrl);
+      }
+      const videoUrl = renditionUrls[0]!;
+
+      // 7. Update story with the main video URL and status
+      await storyStatusService.transition(storyId, 'do_completed', {
+        reason: 'Video rendered and uploaded',
+        // The previous render's Stream upload is superseded; its late webhook must not match
+        data: { video_url: videoUrl, loudness_lufs: loudness, cloudflare_id: null, stream_url: null }
       });
 
-      // 9. Upload to Cloudflare Stream
+      // 8. Upload to Cloudflare Stream
       await this.uploadToCloudflareStream(videoUrl, storyId);
 
       logger.info(`Video generation completed: ${storyId}, URL: ${videoUrl}`);
       return videoUrl;
 
     } catch (error) {
+      // A killed ffmpeg surfaces as a generic error; report it as the cancellation it was
+      if (!(error instanceof StoryCancelledError) && await storyStatusService.isCancelled(storyId)) {
+        throw new StoryCancelledError(storyId);
+      }
       logger.error(`Error generating video for story ${storyId}: ${error}`);
       throw error;
     } finally {
+      this.releaseCommands(tempDir);
       // Cleanup temp directory
       await this.cleanupTempDirectory(tempDir);
     }
   }
 
   /**
-   * Get actual duration of audio file using ffprobe
+   * Abort a story's render: kill its running ffmpeg processes, here and on
+   * whichever instance is rendering it, and remove its temp files
+   */
+  async cancelRender(storyId: string): Promise<void> {
+    const tempDir = VideoService.getTempDir(storyId);
+    VideoService.killRender(tempDir);
+
+    try {
+      await redis.publish(RENDER_CANCEL_CHANNEL, storyId);
+    } catch (error) {
+      // The render still stops at its next cancellation check
+      logger.error(`Failed to publish render cancellation for story ${storyId}: ${error}`);
+    }
+
+    await this.cleanupTempDirectory(tempDir);
+  }
+
+  /**
+   * Kill the ffmpeg processes of a render running in this process, if there is one
+   */
+  private static killRender(tempDir: string): void {
+    const commands = VideoService.activeCommands.get(tempDir);
+    if (!commands) return;
+
+    logger.info(`Killing ${commands.size} ffmpeg process(es) of cancelled render ${path.basename(tempDir)}`);
+    VideoService.cancelledRenders.add(tempDir);
+    for (const command of commands) {
+      command.kill('SIGKILL');
+    }
+    commands.clear();
+  }
+
+  /**
+   * Render highlight clips of a story: vertical video of the span's shots with
+   * burned-in captions, opening on a title card. The story's assets are
+   * downloaded once for all clips. A clip that fails doesn't stop the others;
+   * its result carries the error instead of a URL.
+   */
+  async renderHighlights(storyId: string, clips: HighlightClip[]): Promise<HighlightRenderResult[]> {
+    const tempDir = path.join(process.cwd(), "temp", `highlights_${storyId}`);
+    const profile = RENDER_PROFILES[HIGHLIGHT_PROFILE];
+    const results: HighlightRenderResult[] = [];
+
+    try {
+      fs.mkdirSync(tempDir, { recursive: true });
+
+      const assets = await this.collectVideoAssets(storyId);
+      await this.downloadAssets(assets, tempDir);
+
+      // Shot timing of the full video, which the clips cut from
+      const audioDuration = await this.getMediaDuration(assets.finalAudioPath!);
+      const imageTiming = this.calculateImageTiming(assets.scenes, audioDuration);
+
+      for (const clip of clips) {
+        try {
+          const rendered = await this.normalizeVideoLoudness(
+            await this.renderHighlightClip(assets, imageTiming.imageTimings, clip, profile, tempDir)
+          );
+          const videoUrl = await this.uploadVideo(rendered.videoPath, storyId, `highlight_${clip.clipNumber}`);
+          const duration = await this.getMediaDuration(rendered.videoPath);
+          results.push({ clipNumber: clip.clipNumber, videoUrl, duration, loudness: rendered.loudness, error: null });
+          logger.info(`Highlight ${clip.clipNumber} for story ${storyId} rendered: ${videoUrl}`);
+        } catch (error) {
+          logger.error(`Highlight ${clip.clipNumber} for story ${storyId} failed: ${error}`);
+          results.push({ clipNumber: clip.clipNumber, videoUrl: null, duration: null, loudness: null, error: String(error) });
+        }
+      }
+
+      return results;
+    } finally {
+      this.releaseCommands(tempDir);
+      await this.cleanupTempDirectory(tempDir);
+    }
+  }
+
+  /**
+   * Render an audio-only story as an audiogram in each of its render profiles:
+   * the cover art over a blurred copy of itself, a waveform driven by the final
+   * mix, and captions. The videos are saved as the story's renditions; returns
+   * the first one's URL.
    */
-  private async getAudioDuration(audioPath: string): Promise<number> {
+  async renderAudiogram(storyId: string): Promise<string> {
+    const tempDir = path.join(process.cwd(), "temp", `audiogram_${storyId}`);
+
+    try {
+      fs.mkdirSync(tempDir, { recursive: true });
+
+      const story = await prisma.story.findUnique({
+        where: { id: storyId },
+        select: { audio_url: true, cover_urls: true, subtitles: true, caption_options: true, render_profiles: true }
+      });
+
+      if (!story?.audio_url) {
+        throw new Error('Story audio not found');
+      }
+      if (!story.cover_urls) {
+        throw new Error('Story has no cover art');
+      }
+
+      const audioPath = path.join(tempDir, 'final_audio.mp3');
+      fs.writeFileSync(audioPath, await fetchMedia(story.audio_url));
+      const coverPath = path.join(tempDir, 'cover.jpg');
+      fs.writeFileSync(coverPath, await fetchMedia((JSON.parse(story.cover_urls) as CoverUrls).square));
+
+      const duration = await this.getMediaDuration(audioPath);
+      const subtitles = story.subtitles ? JSON.parse(story.subtitles) : null;
+      // Audiograms are captioned unless the story's caption options say otherwise
+      const captionOptions = story.caption_options
+        ? captionService.parseOptions(story.caption_options)
+        : { ...DEFAULT_CAPTION_OPTIONS, mode: 'burned' as const };
+
+      const videoUrls: string[] = [];
+      for (const profile of this.parseRenderProfiles(story.render_profiles)) {
+        const captionTrack = this.prepareCaptions(subtitles, captionOptions, tempDir, profile, 0);
+        const rendered = await this.normalizeVideoLoudness(
+          await this.createAudiogram(coverPath, audioPath, duration, captionTrack, profile, tempDir)
+        );
+
+        const videoUrl = await this.uploadVideo(rendered.videoPath, storyId, `audiogram_${profile.name}`);
+        await this.saveRendition(storyId, profile, videoUrl, await this.getMediaDuration(rendered.videoPath), rendered.loudness);
+        videoUrls.push(videoUrl);
+      }
+
+      logger.info(`Audiogram rendered for story ${storyId}: ${videoUrls[0]}`);
+      return videoUrls[0]!;
+    } finally {
+      this.releaseCommands(tempDir);
+      await this.cleanupTempDirectory(tempDir);
+    }
+  }
+
+  /**
+   * Forget a finished render's commands and cancellation
+   */
+  private releaseCommands(tempDir: string): void {
+    VideoService.activeCommands.delete(tempDir);
+    VideoService.cancelledRenders.delete(tempDir);
+  }
+
+  private static getTempDir(storyId: string): string {
+    return path.join(process.cwd(), "temp", `video_${storyId}`);
+  }
+
+  /**
+   * Register a running ffmpeg command under its render's temp directory until it
+   * finishes. Throws instead if the render was cancelled, so the command never starts.
+   */
+  private trackCommand(tempDir: string, command: ffmpeg.FfmpegCommand): void {
+    if (VideoService.cancelledRenders.has(tempDir)) {
+      throw new Error(`Render ${path.basename(tempDir)} was cancelled`);
+    }
+
+    const commands = VideoService.activeCommands.get(tempDir) ?? new Set<ffmpeg.FfmpegCommand>();
+    commands.add(command);
+    VideoService.activeCommands.set(tempDir, commands);
+
+    const release = () => {
+      commands.delete(command);
+    };
+    command.on('end', release).on('error', release);
+  }
+
+  /**
+   * Escape a file path for use as a quoted option value inside an ffmpeg filtergraph
+   */
+  private escapeFilterPath(filePath: string): string {
+    return filePath.replace(/\\/g, '/').replace(/'/g, "'\\''");
+  }
+
+  /**
+   * Get actual duration of an audio or video file using ffprobe
+   */
+  private async getMediaDuration(audioPath: string): Promise<number> {
     return new Promise((resolve, reject) => {
       ffmpeg.ffprobe(audioPath, (err, metadata) => {
         if (err) {
@@ -121,24 +376,56 @@ export class VideoService {
   }
 
   /**
-   * Upload video to Cloudflare Stream
+   * Whether Cloudflare Stream credentials are set; without them rendered videos aren't uploaded
    */
-  private async uploadToCloudflareStream(videoUrl: string, storyId: string): Promise<void> {
+  isStreamConfigured(): boolean {
+    return !!(process.env.CLOUDFLARE_ACCOUNT_ID && process.env.CLOUDFLARE_TOKEN);
+  }
+
+  /**
+   * Look up a video on Cloudflare Stream. Returns null if Cloudflare is not configured.
+   */
+  async getCloudflareStreamVideo(cloudflareId: string): Promise<any | null> {
+    const cloudflareAccountId = process.env.CLOUDFLARE_ACCOUNT_ID;
+    const cloudflareToken = process.env.CLOUDFLARE_TOKEN;
+
+    if (!cloudflareAccountId || !cloudflareToken) {
+      logger.warn('Cloudflare credentials not configured, skipping Stream lookup');
+      return null;
+    }
+
+    const response = await axios.get(
+      `https://api.cloudflare.com/client/v4/accounts/${cloudflareAccountId}/stream/${cloudflareId}`,
+      {
+        headers: {
+          'Authorization': `Bearer ${cloudflareToken}`
+        }
+      }
+    );
+
+    return response.data.result;
+  }
+
+  /**
+   * Upload video to Cloudflare Stream. Returns true if Stream accepted the upload.
+   */
+  async uploadToCloudflareStream(videoUrl: string, storyId: string): Promise<boolean> {
     try {
       const cloudflareAccountId = process.env.CLOUDFLARE_ACCOUNT_ID;
       const cloudflareToken = process.env.CLOUDFLARE_TOKEN;
 
       if (!cloudflareAccountId || !cloudflareToken) {
         logger.warn('Cloudflare credentials not configured, skipping Stream upload');
-        return;
+        return false;
       }
 
       const cloudflareUrl = `https://api.cloudflare.com/client/v4/accounts/${cloudflareAccountId}/stream/copy`;
+      const sourceUrl = await storyMediaService.signUrl(videoUrl, STREAM_COPY_URL_TTL_SEC);
 
       const response = await axios.post(
         cloudflareUrl,
         {
-          url: videoUrl,
+          url: sourceUrl,
           meta: {
             name: storyId
           }
@@ -167,12 +454,15 @@ export class VideoService {
         logger.info(`Stream status: ${response.data.result.status.state}`);
         logger.info(`Preview URL: ${response.data.result.preview}`);
         logger.info(`HLS URL: ${response.data.result.playback.hls}`);
-      } else {
-        logger.error(`Cloudflare Stream upload failed: ${JSON.stringify(response.data.errors)}`);
+        return true;
       }
+
+      logger.error(`Cloudflare Stream upload failed: ${JSON.stringify(response.data.errors)}`);
+      return false;
     } catch (error) {
       logger.error(`Error uploading to Cloudflare Stream: ${error}`);
       // Don't throw - this is a non-critical operation
+      return false;
     }
   }
 
@@ -181,11 +471,15 @@ export class VideoService {
    */
   private async collectVideoAssets(storyId: string): Promise<VideoAssets> {
     try {
-      // Get story with audio URL (no subtitles needed)
+      // Get story with audio URL, and subtitles for captions
       const story = await prisma.story.findUnique({
         where: { id: storyId },
         select: { 
-          audio_url: true
+          audio_url: true,
+          subtitles: true,
+          caption_options: true,
+          motion_options: true,
+          render_profiles: true
         }
       });
 
@@ -257,8 +551,11 @@ export class VideoService {
       return {
         scenes,
         finalAudioUrl: story.audio_url,
-        musicUrl: music.audio_url
-        // No subtitles field
+        musicUrl: music.audio_url,
+        subtitles: story.subtitles ? JSON.parse(story.subtitles) : null,
+        captionOptions: captionService.parseOptions(story.caption_options),
+        motionOptions: motionService.parseOptions(story.motion_options),
+        renderProfiles: this.parseRenderProfiles(story.render_profiles)
       };
 
     } catch (error) {
@@ -275,22 +572,20 @@ export class VideoService {
       logger.info('Downloading video assets...');
 
       // Download final audio
-      const audioResponse = await axios.get(assets.finalAudioUrl, { responseType: 'arraybuffer' });
       assets.finalAudioPath = path.join(tempDir, 'final_audio.mp3');
-      fs.writeFileSync(assets.finalAudioPath, Buffer.from(audioResponse.data));
+      fs.writeFileSync(assets.finalAudioPath, await fetchMedia(assets.finalAudioUrl));
 
       // Download music
-      const musicResponse = await axios.get(assets.musicUrl, { responseType: 'arraybuffer' });
       assets.musicPath = path.join(tempDir, 'music.mp3');
-      fs.writeFileSync(assets.musicPath, Buffer.from(musicResponse.data));
+      fs.writeFileSync(assets.musicPath, await fetchMedia(assets.musicUrl));
 
       // Download all images in correct order
       for (const scene of assets.scenes.sort((a, b) => a.scene_number - b.scene_number)) {
         for (const image of scene.images.sort((a, b) => a.shot_number - b.shot_number)) {
-          const imageResponse = await axios.get(image.image_url, { responseType: 'arraybuffer' });
+          const imageBuffer = await fetchMedia(image.image_url);
           const fileName = `scene_${scene.scene_number.toString().padStart(2, '0')}_shot_${image.shot_number.toString().padStart(2, '0')}.jpg`;
           image.localPath = path.join(tempDir, fileName);
-          fs.writeFileSync(image.localPath, Buffer.from(imageResponse.data));
+          fs.writeFileSync(image.localPath, imageBuffer);
           logger.info(`Downloaded: ${fileName}`);
         }
       }
@@ -306,10 +601,10 @@ export class VideoService {
    * Calculate image timing based on actual audio duration
    */
   private calculateImageTiming(scenes: SceneData[], actualAudioDuration: number): {
-    imageTimings: Array<{ imagePath: string; duration: number }>;
+    imageTimings: ImageTiming[];
     totalDuration: number;
   } {
-    const imageTimings: Array<{ imagePath: string; duration: number }> = [];
+    const imageTimings: ImageTiming[] = [];
     
     // Total video duration = intro pad + audio duration + outro fade
     const totalDuration = INTRO_PAD_SEC + actualAudioDuration + OUTRO_FADE_SEC;
@@ -353,7 +648,8 @@ export class VideoService {
 
         imageTimings.push({
           imagePath: image.localPath!,
-          duration: Math.max(0.1, duration) // Ensure minimum duration
+          duration: Math.max(0.1, duration), // Ensure minimum duration
+          sceneStart: imageIndex === 0
         });
 
         currentTime += duration;
@@ -409,6 +705,7 @@ export class VideoService {
         }
 
         const fadeOutStart = Math.max(0, targetDuration - OUTRO_FADE_SEC);
+        this.trackCommand(tempDir, command);
 
         command
           .audioFilters([
@@ -438,74 +735,137 @@ export class VideoService {
   }
 
   /**
-   * Create the final video WITHOUT subtitles
+   * Write the story's captions for the render: an ASS script to burn in, or an
+   * SRT file to mux as a soft track. Cues are shifted by offsetSec to line up
+   * with the voice (the full video delays it by INTRO_PAD_SEC). Font size and
+   * line length follow the profile's frame. Returns null when captions are off
+   * or there are no words.
+   */
+  private prepareCaptions(
+    subtitles: VideoAssets['subtitles'],
+    options: VideoAssets['captionOptions'],
+    tempDir: string,
+    profile: RenderProfile,
+    offsetSec: number
+  ): CaptionTrack | null {
+    if (options.mode === 'off') {
+      return null;
+    }
+
+    const layout = this.captionLayout(profile, options);
+    const cues = captionService.buildCues(subtitles, {
+      maxWordsPerLine: options.maxWordsPerLine,
+      maxCharsPerLine: layout.maxCharsPerLine,
+      offsetSec
+    });
+    if (cues.length === 0) {
+      logger.warn(`Captions requested (${options.mode}) but the story has no subtitle words, rendering without`);
+      return null;
+    }
+
+    if (options.mode === 'burned') {
+      const captionPath = path.join(tempDir, `captions_${profile.name}.ass`);
+      fs.writeFileSync(captionPath, captionService.toAss(cues, layout.style));
+      logger.info(`Burning in ${cues.length} caption cues (${options.font} ${options.fontSize}px, ${options.position})`);
+      return { mode: 'burned', path: captionPath };
+    }
+
+    const captionPath = path.join(tempDir, `captions_${profile.name}.srt`);
+    fs.writeFileSync(captionPath, captionService.toSrt(cues));
+    logger.info(`Adding ${cues.length} caption cues as a soft subtitle track`);
+    return { mode: 'soft', path: captionPath };
+  }
+
+  /**
+   * Caption line length and ASS style for a profile's frame. Sizes in the
+   * caption options are for a 1080-pixel frame and scale with the shorter side.
+   */
+  private captionLayout(profile: RenderProfile, options: VideoAssets['captionOptions']) {
+    const scale = Math.min(profile.width, profile.height) / CAPTION_REFERENCE_SIZE;
+    return {
+      maxCharsPerLine: Math.round(CAPTION_REFERENCE_CHARS_PER_LINE * (profile.width / scale) / 1920),
+      style: {
+        font: options.font,
+        fontSize: Math.round(options.fontSize * scale),
+        position: options.position,
+        width: profile.width,
+        height: profile.height
+      }
+    };
+  }
+
+  /**
+   * Create the final video in a render profile, with captions if a caption track
+   * is given. Returns the video and the integrated loudness of its audio.
    */
   private async createVideo(
     assets: VideoAssets,
-    imageTiming: { imageTimings: Array<{ imagePath: string; duration: number }>, totalDuration: number },
+    imageTiming: { imageTimings: ImageTiming[], totalDuration: number },
     processedMusicPath: string,
-    tempDir: string
-  ): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const outputPath = path.join(tempDir, 'final_video.mp4');
+    tempDir: string,
+    captionTrack: CaptionTrack | null,
+    profile: RenderProfile
+  ): Promise<{ videoPath: string; loudness: number | null }> {
+    if (imageTiming.imageTimings.length === 0) {
+      throw new Error('No images found for video generation');
+    }
 
-      // Create concat file for images with durations
-      const concatFile = path.join(tempDir, 'images.txt');
-      
-      if (imageTiming.imageTimings.length === 0) {
-        throw new Error('No images found for video generation');
-      }
-      
-      const lastImage = imageTiming.imageTimings[imageTiming.imageTimings.length - 1]!;
-      const concatContent = imageTiming.imageTimings
-        .map(timing => `file '${timing.imagePath.replace(/'/g, "'\\''")}'\nduration ${timing.duration.toFixed(3)}`)
-        .join('\n') + `\nfile '${lastImage.imagePath.replace(/'/g, "'\\''")}'\n`;
-      
-      fs.writeFileSync(concatFile, concatContent);
-      logger.info(`Created concat file with ${imageTiming.imageTimings.length} images`);
+    const outputPath = path.join(tempDir, `final_video_${profile.name}.mp4`);
+    const totalDuration = Math.floor(imageTiming.totalDuration);
 
-      const totalDuration = Math.floor(imageTiming.totalDuration);
+    // Step 1: Create video with images (captions are added in step 2)
+    const tempVideoPath = path.join(tempDir, `temp_video_${profile.name}.mp4`);
+    await this.renderSlideshow(imageTiming.imageTimings, assets.motionOptions, profile, tempVideoPath, totalDuration);
 
-      // Step 1: Create video with images (no subtitles)
-      const tempVideoPath = path.join(tempDir, 'temp_video.mp4');
-      
-      // Build scaling/cropping filters to guarantee strict 16:9 output
-      const vfPad = [
-        `scale=${OUTPUT_WIDTH}:${OUTPUT_HEIGHT}:force_original_aspect_ratio=decrease`,
-        `pad=${OUTPUT_WIDTH}:${OUTPUT_HEIGHT}:(ow-iw)/2:(oh-ih)/2:black`,
-        'setsar=1',
-        'setdar=16/9'
-      ];
+    // Step 2: Add audio to the video
+    const loudness = await this.addAudioToVideo(tempVideoPath, processedMusicPath, assets.finalAudioPath!, outputPath, totalDuration, captionTrack);
 
-      const vfCover = [
-        // Scale up until we cover 16:9, then crop the overflow (no black bars)
-        `scale=${OUTPUT_WIDTH}:${OUTPUT_HEIGHT}:force_original_aspect_ratio=increase`,
-        `crop=${OUTPUT_WIDTH}:${OUTPUT_HEIGHT}`,
-        'setsar=1',
-        'setdar=16/9'
-      ];
+    // Clean up temp video
+    try {
+      fs.unlinkSync(tempVideoPath);
+    } catch (err) {
+      logger.warn(`Could not delete temp video: ${err}`);
+    }
+
+    return { videoPath: outputPath, loudness };
+  }
 
-      const videoFilters = VIDEO_FIT_MODE === 'pad' ? vfPad : vfCover;
+  /**
+   * Render the shots as a silent slideshow of the given duration
+   */
+  private async renderSlideshow(
+    timings: ImageTiming[],
+    motionOptions: VideoAssets['motionOptions'],
+    profile: RenderProfile,
+    outputPath: string,
+    duration: number
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      let videoCommand = ffmpeg();
+      for (const timing of timings) {
+        videoCommand = videoCommand.input(timing.imagePath);
+      }
 
-      let videoCommand = ffmpeg()
-        .input(concatFile)
-        .inputOptions(['-f concat', '-safe 0'])
-        .videoFilters(videoFilters);
+      const slideshowFilter = this.buildSlideshowFilter(timings, motionOptions, profile);
+      logger.info(`Built slideshow filter for ${timings.length} shots (${profile.name}, ${profile.width}x${profile.height})`);
+
+      this.trackCommand(path.dirname(outputPath), videoCommand);
 
       // Create video without audio first
       videoCommand
+        .complexFilter(slideshowFilter, 'slideshow')
         .outputOptions([
           '-c:v', 'libx264',
           '-pix_fmt', 'yuv420p',
-          '-aspect', '16:9',
-          '-r', '30',
+          '-aspect', `${profile.width}:${profile.height}`,
+          '-r', String(OUTPUT_FPS),
           '-preset', 'fast',
           '-crf', '23',
           '-an', // No audio
-          '-t', totalDuration.toString()
+          '-t', duration.toString()
         ])
         .on('start', (commandLine) => {
-          logger.info(`Step 1: Creating video with images for ${totalDuration}s`);
+          logger.info(`Step 1: Creating ${profile.name} video with images for ${duration}s`);
         })
         .on('progress', (progress) => {
           if (progress.percent) {
@@ -514,54 +874,363 @@ export class VideoService {
         })
         .on('end', () => {
           logger.info('Step 1 completed - video created');
-          
-          // Step 2: Add audio to the video
-          this.addAudioToVideo(tempVideoPath, processedMusicPath, assets.finalAudioPath!, outputPath, totalDuration)
-            .then(() => {
-              // Clean up temp video
-              try {
-                fs.unlinkSync(tempVideoPath);
-              } catch (err) {
-                logger.warn(`Could not delete temp video: ${err}`);
-              }
-              resolve(outputPath);
-            })
-            .catch(reject);
+          resolve();
         })
         .on('error', (err) => {
           logger.error(`Video creation error: ${err.message}`);
           reject(err);
         })
-        .save(tempVideoPath);
+        .save(outputPath);
+    });
+  }
+
+  /**
+   * Render one highlight clip: the shots on screen during the span (the first
+   * one held for the title card), the span's voice over quiet music, and its
+   * captions burned in
+   */
+  private async renderHighlightClip(
+    assets: VideoAssets,
+    videoTimings: ImageTiming[],
+    clip: HighlightClip,
+    profile: RenderProfile,
+    tempDir: string
+  ): Promise<string> {
+    const spanDuration = clip.end - clip.start;
+    const clipDuration = HIGHLIGHT_TITLE_SEC + spanDuration + HIGHLIGHT_TAIL_SEC;
+    const label = `highlight_${clip.clipNumber}`;
+
+    // Step 1: Slideshow of the shots on screen during the span
+    const shots = this.highlightTimings(videoTimings, clip);
+    const slideshowPath = path.join(tempDir, `${label}_slideshow.mp4`);
+    await this.renderSlideshow(shots, assets.motionOptions, profile, slideshowPath, Number(clipDuration.toFixed(3)));
+
+    // Step 2: Captions for the span's words, shifted to start after the title card
+    const layout = this.captionLayout(profile, assets.captionOptions);
+    const spanWords = (Array.isArray(assets.subtitles?.words) ? assets.subtitles.words : [])
+      .filter((word: any) => word.start >= clip.start - 0.01 && word.end <= clip.end + 0.01);
+    const cues = captionService.buildCues({ words: spanWords }, {
+      maxWordsPerLine: assets.captionOptions.maxWordsPerLine,
+      maxCharsPerLine: layout.maxCharsPerLine,
+      offsetSec: HIGHLIGHT_TITLE_SEC - clip.start
+    });
+    const captionPath = path.join(tempDir, `${label}.ass`);
+    fs.writeFileSync(captionPath, captionService.toAss(cues, layout.style, {
+      text: clip.title,
+      start: 0,
+      end: HIGHLIGHT_TITLE_SEC
+    }));
+
+    // Step 3: Music bed and voice, captions and fades
+    const musicPath = await this.processMusicForVideo(assets.musicPath!, Math.ceil(clipDuration), tempDir);
+    const outputPath = path.join(tempDir, `${label}.mp4`);
+    const voiceDelayMs = Math.round(HIGHLIGHT_TITLE_SEC * 1000);
+    const fadeOutStart = (clipDuration - HIGHLIGHT_FADE_SEC).toFixed(3);
+
+    await new Promise<void>((resolve, reject) => {
+      const command = ffmpeg()
+        .input(slideshowPath)                                                  // [0:v] slideshow
+        .input(assets.finalAudioPath!)                                         // [1:a] voice, cut to the span
+        .inputOptions(['-ss', clip.start.toFixed(3), '-t', spanDuration.toFixed(3)])
+        .input(musicPath);                                                     // [2:a] music
+
+      this.trackCommand(tempDir, command);
+
+      command
+        .complexFilter([
+          `[0:v]ass=filename='${this.escapeFilterPath(captionPath)}',fade=in:st=0:d=${HIGHLIGHT_FADE_SEC},fade=out:st=${fadeOutStart}:d=${HIGHLIGHT_FADE_SEC}[video]`,
+          `[1:a]afade=in:st=0:d=0.2,adelay=${voiceDelayMs}|${voiceDelayMs}[voice]`,
+          '[2:a]volume=0.3[music]',
+          `[music][voice]amix=inputs=2:duration=longest:dropout_transition=0,afade=out:st=${fadeOutStart}:d=${HIGHLIGHT_FADE_SEC}[audio]`
+        ])
+        .outputOptions([
+          '-map', '[video]',
+          '-map', '[audio]',
+          '-c:v', 'libx264',
+          '-pix_fmt', 'yuv420p',
+          '-preset', 'fast',
+          '-crf', '23',
+          '-c:a', 'aac',
+          '-b:a', '192k',
+          '-movflags', '+faststart',
+          '-t', clipDuration.toFixed(3)
+        ])
+        .on('start', (cmd) => {
+          logger.info(`Rendering ${label}: ${clip.start.toFixed(1)}-${clip.end.toFixed(1)}s of the voice track, "${clip.title}"`);
+          logger.info(`Highlight command: ${cmd}`);
+        })
+        .on('end', () => resolve())
+        .on('error', (err) => {
+          logger.error(`Highlight render error: ${err.message}`);
+          reject(err);
+        })
+        .save(outputPath);
     });
+
+    return outputPath;
+  }
+
+  /**
+   * The full video's shots cut down to a highlight span. The voice starts
+   * INTRO_PAD_SEC into the full video; in the clip it starts after the title
+   * card, which holds the span's first shot.
+   */
+  private highlightTimings(videoTimings: ImageTiming[], clip: HighlightClip): ImageTiming[] {
+    const windowStart = INTRO_PAD_SEC + clip.start;
+    const windowEnd = INTRO_PAD_SEC + clip.end + HIGHLIGHT_TAIL_SEC;
+    const shots: ImageTiming[] = [];
+
+    let shotStart = 0;
+    for (const timing of videoTimings) {
+      const shotEnd = shotStart + timing.duration;
+      const overlap = Math.min(shotEnd, windowEnd) - Math.max(shotStart, windowStart);
+      if (overlap > 0.05) {
+        shots.push({ ...timing, duration: overlap, sceneStart: shots.length === 0 || timing.sceneStart });
+      }
+      shotStart = shotEnd;
+    }
+
+    if (shots.length === 0) {
+      throw new Error(`No shots on screen between ${clip.start}s and ${clip.end}s`);
+    }
+
+    shots[0]!.duration += HIGHLIGHT_TITLE_SEC;
+    return shots;
   }
 
   /**
-   * Add mixed audio to the video with proper fade timings
+   * Render one audiogram video from the cover and the final mix
+   */
+  private async createAudiogram(
+    coverPath: string,
+    audioPath: string,
+    duration: number,
+    captionTrack: CaptionTrack | null,
+    profile: RenderProfile,
+    tempDir: string
+  ): Promise<string> {
+    const outputPath = path.join(tempDir, `audiogram_${profile.name}.mp4`);
+
+    await new Promise<void>((resolve, reject) => {
+      const command = ffmpeg()
+        .input(coverPath)                                                  // [0:v] cover, held for the whole video
+        .inputOptions(['-loop', '1', '-framerate', String(OUTPUT_FPS)])
+        .input(audioPath);                                                 // [1:a] final mix
+
+      const outputOptions = [
+        '-map', '[audiogram]',
+        '-map', '[audio]',
+        '-c:v', 'libx264',
+        '-pix_fmt', 'yuv420p',
+        '-r', String(OUTPUT_FPS),
+        '-preset', 'fast',
+        '-crf', '23',
+        '-c:a', 'aac',
+        '-b:a', '192k',
+        '-movflags', '+faststart',
+        '-t', duration.toFixed(3)
+      ];
+      if (captionTrack?.mode === 'soft') {
+        command.input(captionTrack.path); // [2:s] captions
+        outputOptions.push('-map', '2:s', '-c:s', 'mov_text');
+      }
+
+      this.trackCommand(tempDir, command);
+
+      command
+        .complexFilter(this.buildAudiogramFilter(profile, duration, captionTrack))
+        .outputOptions(outputOptions)
+        .on('start', (cmd) => {
+          logger.info(`Rendering ${profile.name} audiogram for ${duration.toFixed(1)}s`);
+          logger.info(`Audiogram command: ${cmd}`);
+        })
+        .on('progress', (progress) => {
+          if (progress.percent) {
+            logger.info(`Audiogram progress: ${Math.round(progress.percent)}%`);
+          }
+        })
+        .on('end', () => resolve())
+        .on('error', (err) => {
+          logger.error(`Audiogram render error: ${err.message}`);
+          reject(err);
+        })
+        .save(outputPath);
+    });
+
+    return outputPath;
+  }
+
+  /**
+   * Filter graph for an audiogram: the cover blurred and darkened to fill the
+   * frame, the cover itself centred near the top, the waveform of the mix
+   * below it, and burned-in captions on top. The artwork takes at most half
+   * the frame's height so the waveform and captions fit underneath.
+   */
+  private buildAudiogramFilter(profile: RenderProfile, duration: number, captionTrack: CaptionTrack | null): string[] {
+    const { width, height } = profile;
+    const even = (value: number) => Math.round(value / 2) * 2;
+
+    const artSize = even(Math.min(width, height / 2) * 0.8);
+    const artX = (width - artSize) / 2;
+    const artY = even(height * 0.08);
+    const waveWidth = even(width * 0.8);
+    const waveHeight = even(height * 0.15);
+    const waveX = (width - waveWidth) / 2;
+    const waveY = artY + artSize + even(height * 0.04);
+    const blur = Math.round(Math.min(width, height) / 40);
+    const fadeOutStart = Math.max(0, duration - AUDIOGRAM_FADE_SEC).toFixed(3);
+
+    const videoFilters = [`overlay=${waveX}:${waveY}:shortest=1`];
+    if (captionTrack?.mode === 'burned') {
+      videoFilters.push(`ass=filename='${this.escapeFilterPath(captionTrack.path)}'`);
+    }
+    videoFilters.push(
+      `fade=in:st=0:d=${AUDIOGRAM_FADE_SEC}`,
+      `fade=out:st=${fadeOutStart}:d=${AUDIOGRAM_FADE_SEC}`,
+      'format=yuv420p'
+    );
+
+    return [
+      '[0:v]split[cover_bg][cover_art]',
+      `[cover_bg]scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height},boxblur=${blur}:2,eq=brightness=-0.25,setsar=1[bg]`,
+      `[cover_art]scale=${artSize}:${artSize},setsar=1[art]`,
+      '[1:a]asplit[wave_in][audio]',
+      `[wave_in]showwaves=s=${waveWidth}x${waveHeight}:mode=cline:rate=${OUTPUT_FPS}:colors=white[wave]`,
+      `[bg][art]overlay=${artX}:${artY}[framed]`,
+      `[framed][wave]${videoFilters.join(',')}[audiogram]`
+    ];
+  }
+
+  /**
+   * Filter graph turning one image input per shot into the slideshow.
+   *
+   * Each shot becomes a clip (with its motion preset) that starts on the frame
+   * where the shot's timing says it starts. A transition into the next shot
+   * starts on the cut point and runs over the start of the next shot, so the
+   * outgoing clip is extended by the transition length. Every shot still starts
+   * at the same time as with hard cuts and the output is as long as the timings
+   * add up to, keeping it in sync with the audio.
+   */
+  private buildSlideshowFilter(timings: ImageTiming[], options: VideoAssets['motionOptions'], profile: RenderProfile): string[] {
+    const { width, height } = profile;
+
+    // Scale to fill (or letterbox into) the profile's frame
+    const fitFilters = profile.fit === 'pad'
+      ? [
+          `scale=${width}:${height}:force_original_aspect_ratio=decrease`,
+          `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:black`
+        ]
+      : [
+          // Scale up until we cover the frame, then crop the overflow (no black bars)
+          `scale=${width}:${height}:force_original_aspect_ratio=increase`,
+          `crop=${width}:${height}`
+        ];
+    const supersample = width * height * MOTION_SUPERSAMPLE ** 2 <= MAX_MOTION_PIXELS ? MOTION_SUPERSAMPLE : 1;
+
+    const presets = options.kenBurns
+      ? motionService.pickPresets(timings.map(timing => timing.imagePath))
+      : timings.map(() => null);
+
+    // Shot boundaries on whole frames, from the cumulative timing so rounding doesn't drift
+    const endFrames: number[] = [];
+    let elapsed = 0;
+    for (const timing of timings) {
+      elapsed += timing.duration;
+      endFrames.push(Math.round(elapsed * OUTPUT_FPS));
+    }
+
+    const filters: string[] = [];
+    // xfade transition out of each shot, if any, and its length in frames
+    const transitions: Array<{ name: string | null; frames: number }> = [];
+
+    timings.forEach((timing, i) => {
+      const startFrame = i === 0 ? 0 : endFrames[i - 1]!;
+      const shotFrames = Math.max(1, endFrames[i]! - startFrame);
+
+      // Transition into the next shot, capped at half of that shot so transitions never overlap
+      const next = timings[i + 1];
+      const name = next
+        ? motionService.xfadeTransition(next.sceneStart ? options.sceneTransition : options.shotTransition)
+        : null;
+      const fadeFrames = name
+        ? Math.min(Math.round(options.transitionDuration * OUTPUT_FPS), Math.floor((endFrames[i + 1]! - endFrames[i]!) / 2))
+        : 0;
+      transitions.push({ name, frames: fadeFrames });
+
+      const preset = presets[i] ?? null;
+      const scale = preset ? supersample : 1;
+      filters.push([
+        `[${i}:v]${fitFilters.join(',')}`,
+        `scale=${width * scale}:${height * scale}`,
+        motionService.zoompanFilter(preset, shotFrames + fadeFrames, width, height, OUTPUT_FPS),
+        'setsar=1',
+        'format=yuv420p',
+        `settb=1/${OUTPUT_FPS}[shot${i}]`
+      ].join(','));
+    });
+
+    // Chain the clips: xfade where there is a transition, concat for hard cuts
+    let current = 'shot0';
+    for (let i = 1; i < timings.length; i++) {
+      const output = i === timings.length - 1 ? 'slideshow' : `chain${i}`;
+      const transition = transitions[i - 1]!;
+
+      if (transition.name && transition.frames > 0) {
+        const offset = (endFrames[i - 1]! / OUTPUT_FPS).toFixed(3);
+        const duration = (transition.frames / OUTPUT_FPS).toFixed(3);
+        filters.push(`[${current}][shot${i}]xfade=transition=${transition.name}:duration=${duration}:offset=${offset}[${output}]`);
+      } else {
+        filters.push(`[${current}][shot${i}]concat=n=2:v=1:a=0[${output}]`);
+      }
+      current = output;
+    }
+
+    if (timings.length === 1) {
+      filters.push('[shot0]null[slideshow]');
+    }
+
+    const fades = transitions.filter(transition => transition.frames > 0).length;
+    logger.info(`Slideshow: ${options.kenBurns ? presets.join(', ') : 'no motion'}; ${fades} transitions (${options.shotTransition} between shots, ${options.sceneTransition} between scenes)`);
+
+    return filters;
+  }
+
+  /**
+   * Add mixed audio to the video with proper fade timings. Returns the mix's
+   * integrated loudness after normalization.
    */
   private async addAudioToVideo(
     videoPath: string,
     musicPath: string,
     voicePath: string,
     outputPath: string,
-    duration: number
-  ): Promise<void> {
+    duration: number,
+    captionTrack: CaptionTrack | null
+  ): Promise<number | null> {
     const tempDir = path.dirname(videoPath);
+    const rawMixPath = path.join(tempDir, 'mixed_audio.wav');
     const mixedAudioPath = path.join(tempDir, 'mixed_audio.mp3');
     
     try {
-      // Step 2a: Create the mixed audio first
-      await this.createMixedAudio(musicPath, voicePath, mixedAudioPath, duration);
+      // Step 2a: Create the mixed audio first, then bring it to the video loudness target
+      await this.createMixedAudio(musicPath, voicePath, rawMixPath, duration);
+      const { output } = await loudnessService.normalize(rawMixPath, mixedAudioPath, LOUDNESS_TARGETS.video, [
+        '-c:a', 'libmp3lame',
+        '-b:a', '192k'
+      ], (command) => this.trackCommand(tempDir, command));
       
       // Step 2b: Combine video with mixed audio
-      await this.combineVideoWithAudio(videoPath, mixedAudioPath, outputPath, duration);
+      await this.combineVideoWithAudio(videoPath, mixedAudioPath, outputPath, duration, captionTrack);
       
       // Clean up mixed audio
       try {
+        fs.unlinkSync(rawMixPath);
         fs.unlinkSync(mixedAudioPath);
       } catch (err) {
         logger.warn(`Could not delete mixed audio: ${err}`);
       }
+
+      return loudnessService.storedLufs(output);
     } catch (error) {
       throw error;
     }
@@ -594,13 +1263,14 @@ export class VideoService {
         // Mix the two audio streams
         '[music][voice]amix=inputs=2:duration=longest:dropout_transition=0[mixed]'
       ].join(';');
+
+      this.trackCommand(path.dirname(outputPath), command);
       
       command
         .complexFilter(audioFilter)
         .outputOptions([
           '-map', '[mixed]',
-          '-acodec', 'libmp3lame',
-          '-b:a', '192k',
+          '-acodec', 'pcm_s16le', // Compressed once normalized
           '-t', duration.toString()
         ])
         .on('start', (cmd) => {
@@ -625,13 +1295,15 @@ export class VideoService {
   }
 
   /**
-   * Combine video with mixed audio and add video fade-out
+   * Combine video with mixed audio and add video fade-out. Burned-in captions
+   * are drawn before the fade; soft captions are muxed as a mov_text track.
    */
   private async combineVideoWithAudio(
     videoPath: string,
     audioPath: string,
     outputPath: string,
-    duration: number
+    duration: number,
+    captionTrack: CaptionTrack | null
   ): Promise<void> {
     return new Promise((resolve, reject) => {
       const fadeOutStart = Math.floor(duration - OUTRO_FADE_SEC);
@@ -644,17 +1316,27 @@ export class VideoService {
         .input(audioPath);   // [0:a] mixed audio
       
       // Simple video fade-out filter
-      const videoFilter = `fade=out:st=${fadeOutStart}:d=${OUTRO_FADE_SEC}`;
+      const videoFilters = [`fade=out:st=${fadeOutStart}:d=${OUTRO_FADE_SEC}`];
+      const outputOptions = [
+        '-c:v', 'libx264',
+        '-c:a', 'copy',  // Just copy the audio since it's already processed
+        '-preset', 'fast',
+        '-movflags', '+faststart',
+        '-t', duration.toString()
+      ];
+
+      if (captionTrack?.mode === 'burned') {
+        videoFilters.unshift(`ass=filename='${this.escapeFilterPath(captionTrack.path)}'`);
+      } else if (captionTrack?.mode === 'soft') {
+        command.input(captionTrack.path); // [2:s] captions
+        outputOptions.push('-map', '0:v', '-map', '1:a', '-map', '2:s', '-c:s', 'mov_text');
+      }
+
+      this.trackCommand(path.dirname(outputPath), command);
       
       command
-        .videoFilters(videoFilter)
-        .outputOptions([
-          '-c:v', 'libx264',
-          '-c:a', 'copy',  // Just copy the audio since it's already processed
-          '-preset', 'fast',
-          '-movflags', '+faststart',
-          '-t', duration.toString()
-        ])
+        .videoFilters(videoFilters)
+        .outputOptions(outputOptions)
         .on('start', (cmd) => {
           logger.info(`Adding mixed audio to video with fade-out`);
           logger.info(`Combine command: ${cmd}`);
@@ -677,30 +1359,36 @@ export class VideoService {
   }
 
   /**
-   * Upload final video to DigitalOcean Spaces
+   * Bring a rendered video's audio to the video loudness target, copying the
+   * other streams. Returns the normalized file and its integrated loudness.
    */
-  private async uploadVideo(videoPath: string, storyId: string): Promise<string> {
+  private async normalizeVideoLoudness(videoPath: string): Promise<{ videoPath: string; loudness: number | null }> {
+    const outputPath = videoPath.replace(/\.mp4$/, '_normalized.mp4');
+    const { output } = await loudnessService.normalize(videoPath, outputPath, LOUDNESS_TARGETS.video, [
+      '-map', '0',
+      '-c:v', 'copy',
+      '-c:s', 'copy',
+      '-c:a', 'aac',
+      '-b:a', '192k',
+      '-movflags', '+faststart'
+    ], (command) => this.trackCommand(path.dirname(videoPath), command));
+    return { videoPath: outputPath, loudness: loudnessService.storedLufs(output) };
+  }
+
+  /**
+   * Upload a rendered video to media storage
+   */
+  private async uploadVideo(videoPath: string, storyId: string, label: string): Promise<string> {
     try {
       const videoBuffer = fs.readFileSync(videoPath);
       const timestamp = Date.now();
-      const hash = crypto.createHash('md5').update(storyId + 'video').digest('hex').substring(0, 8);
-      const fileName = `videos/${storyId}/final_${timestamp}_${hash}.mp4`;
-
-      const uploadCommand = new PutObjectCommand({
-        Bucket: process.env.DO_SPACES_BUCKET!,
-        Key: fileName,
-        Body: videoBuffer,
-        ContentType: 'video/mp4',
-        ACL: 'public-read',
-      });
+      const hash = crypto.createHash('md5').update(storyId + 'video' + label).digest('hex').substring(0, 8);
+      const fileName = `videos/${storyId}/${label}_${timestamp}_${hash}.mp4`;
 
-      await this.s3Client.send(uploadCommand);
-
-      const baseUrl =
-        process.env.DO_SPACES_CDN_URL ||
-        `https://${process.env.DO_SPACES_BUCKET}.${process.env.DO_SPACES_REGION}.digitaloceanspaces.com`;
-      
-      const publicUrl = `${baseUrl}/${fileName}`;
+      const publicUrl = await storage.put(fileName, videoBuffer, {
+        contentType: 'video/mp4',
+        public: await storyMediaService.isPublic(storyId)
+      });
       logger.info(`Video uploaded successfully: ${publicUrl}`);
       
       return publicUrl;
@@ -710,6 +1398,57 @@ export class VideoService {
     }
   }
 
+  /**
+   * Record a rendered video, replacing an earlier render of the same profile
+   */
+  private async saveRendition(
+    storyId: string,
+    profile: RenderProfile,
+    videoUrl: string,
+    duration: number,
+    loudness: number | null
+  ): Promise<void> {
+    const where = { story_id_profile: { story_id: storyId, profile: profile.name } };
+    const previous = await prisma.rendition.findUnique({ where, select: { video_url: true } });
+
+    const data = { width: profile.width, height: profile.height, duration, video_url: videoUrl, loudness_lufs: loudness };
+    await prisma.rendition.upsert({
+      where,
+      create: { story_id: storyId, profile: profile.name, ...data },
+      update: data
+    });
+    logger.info(`Saved ${profile.name} rendition for story ${storyId} (${duration.toFixed(2)}s)`);
+
+    // A re-render replaces the profile's file; a leftover file is not worth failing over
+    if (previous && previous.video_url !== videoUrl) {
+      try {
+        const key = storage.keyFromUrl(previous.video_url);
+        if (key) {
+          await storage.delete(key);
+        }
+      } catch (error) {
+        logger.warn(`Failed to delete previous ${profile.name} rendition of story ${storyId}: ${error}`);
+      }
+    }
+  }
+
+  /**
+   * Render profiles stored on a story, in order, skipping unknown names
+   */
+  private parseRenderProfiles(stored: string | null): RenderProfile[] {
+    let names: unknown = null;
+    try {
+      names = stored ? JSON.parse(stored) : null;
+    } catch {
+      logger.warn(`Failed to parse stored render profiles, using ${DEFAULT_RENDER_PROFILE}`);
+    }
+
+    const profiles = Array.isArray(names)
+      ? names.filter((name): name is RenderProfileName => typeof name === 'string' && name in RENDER_PROFILES).map(name => RENDER_PROFILES[name])
+      : [];
+    return profiles.length > 0 ? profiles : [RENDER_PROFILES[DEFAULT_RENDER_PROFILE]];
+  }
+
   /**
    * Cleanup temporary directory
    */
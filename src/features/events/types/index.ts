@@ -1,3 +1,5 @@
+import type { CaptionOptions, MotionOptions, RenderProfileName } from "../../story/types/index.js";
+
 // Add these to your existing types/index.ts file
 
 export interface SceneData {
@@ -20,7 +22,49 @@ export interface VideoAssets {
   scenes: SceneData[];
   finalAudioUrl: string;
   musicUrl: string;
-  subtitles?: any;        // Add this for subtitle data
+  subtitles?: any;        // Word-level timestamps of the voice track
+  captionOptions: Required<CaptionOptions>;
+  motionOptions: Required<MotionOptions>;
+  renderProfiles: RenderProfile[]; // The first one is the story's main video
   finalAudioPath?: string;
   musicPath?: string;
+}
+
+// Output frame of a rendition, and how images are fitted into it:
+//  - 'pad'   : letterbox (no crop, black bars)
+//  - 'cover' : center-crop to fill frame (no bars)
+export interface RenderProfile {
+  name: RenderProfileName;
+  width: number;
+  height: number;
+  fit: 'pad' | 'cover';
+}
+
+// How long one image stays on screen in the render
+export interface ImageTiming {
+  imagePath: string;
+  duration: number;
+  sceneStart: boolean; // First shot of its scene
+}
+
+// A highlight clip to render: a span of the voice track, in seconds
+export interface HighlightClip {
+  clipNumber: number;
+  start: number;
+  end: number;
+  title: string;
+}
+
+export interface HighlightRenderResult {
+  clipNumber: number;
+  videoUrl: string | null;
+  duration: number | null; // seconds, title card included
+  loudness: number | null; // integrated loudness of the clip's audio, LUFS
+  error: string | null;    // set when the clip failed to render
+}
+
+// Caption file written for a render, and how it goes into the video
+export interface CaptionTrack {
+  mode: 'burned' | 'soft';
+  path: string;
 }
\ No newline at end of file
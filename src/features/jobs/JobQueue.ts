@@ -0,0 +1,313 @@
+// src/features/jobs/JobQueue.ts
+import crypto from "crypto";
+import redis from "../../lib/redis.js";
+import logger from "../../utils/logger.js";
+import type { Job, EnqueueOptions, JobHandler, JobHandlerOptions, QueueStats } from "./types/index.js";
+
+const KEY_PREFIX = 'saga:jobs';
+const DATA_KEY = `${KEY_PREFIX}:data`;
+const DEAD_KEY = `${KEY_PREFIX}:dead`;
+
+const POLL_INTERVAL_MS = 500;         // idle wait between claim attempts
+const MAINTENANCE_INTERVAL_MS = 1000; // how often delayed/stalled jobs are promoted
+const LEASE_MS = 60_000;              // a job not heartbeated within this window is considered stalled
+const HEARTBEAT_MS = 20_000;
+const MAX_BACKOFF_MS = 10 * 60_000;
+const DEAD_LETTER_LIMIT = 1000;
+
+const DEFAULT_HANDLER_OPTIONS = {
+  concurrency: 1,
+  maxAttempts: 5,
+  backoffMs: 5000
+};
+
+// Store the job and queue it, unless a job with the same ID already exists
+const ENQUEUE_SCRIPT = `
+if redis.call('HSETNX', KEYS[1], ARGV[1], ARGV[2]) == 0 then return 0 end
+if tonumber(ARGV[3]) > 0 then
+  redis.call('ZADD', KEYS[3], ARGV[3], ARGV[1])
+else
+  redis.call('LPUSH', KEYS[2], ARGV[1])
+end
+return 1`;
+
+// Pop the oldest waiting job and lease it
+const CLAIM_SCRIPT = `
+local id = redis.call('RPOP', KEYS[1])
+if id then redis.call('ZADD', KEYS[2], ARGV[1], id) end
+return id`;
+
+// Move every member of a sorted set whose score is due onto the front of a list
+const PROMOTE_SCRIPT = `
+local ids = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, 100)
+for _, id in ipairs(ids) do
+  redis.call('ZREM', KEYS[1], id)
+  redis.call('RPUSH', KEYS[2], id)
+end
+return #ids`;
+
+// Pipeline job types
+export const JobTypes = {
+  MEDIA_PIPELINE: 'media-pipeline',
+  ANCHOR_IMAGES: 'anchor-images',
+  MUSIC: 'music',
+  SCENE_AUDIO: 'scene-audio',
+  MIX: 'mix',
+  VIDEO: 'video',
+  CAPTION: 'caption',
+  HIGHLIGHTS: 'highlights',
+  COVER: 'cover',
+  AUDIOGRAM: 'audiogram'
+} as const;
+
+interface RegisteredHandler {
+  handler: JobHandler;
+  options: Required<Omit<JobHandlerOptions, 'onFailed'>> & Pick<JobHandlerOptions, 'onFailed'>;
+  active: number;
+}
+
+/**
+ * Persistent job queue backed by Redis.
+ *
+ * Jobs survive process restarts: a job being processed holds a lease that is
+ * renewed by a heartbeat, and leases left behind by a crashed or restarted
+ * process expire and put the job back in the waiting list. Failed jobs are
+ * retried with exponential backoff and moved to a dead-letter list once they
+ * run out of attempts.
+ */
+export class JobQueue {
+  private handlers: Map<string, RegisteredHandler> = new Map();
+  private running = false;
+  private maintenanceTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Register the handler for a job type. Must be called before start().
+   */
+  register<T>(type: string, handler: JobHandler<T>, options: JobHandlerOptions<T> = {}): void {
+    this.handlers.set(type, {
+      handler,
+      options: { ...DEFAULT_HANDLER_OPTIONS, ...options } as RegisteredHandler['options'],
+      active: 0
+    });
+  }
+
+  /**
+   * Add a job to the queue. Returns the job ID, or null if a job with the same
+   * jobId is already queued or running.
+   */
+  async enqueue<T>(type: string, payload: T, options: EnqueueOptions = {}): Promise<string | null> {
+    const job: Job<T> = {
+      id: options.jobId || crypto.randomUUID(),
+      type,
+      payload,
+      attempts: 0,
+      createdAt: Date.now()
+    };
+    if (options.maxAttempts !== undefined) {
+      job.maxAttempts = options.maxAttempts;
+    }
+
+    const runAt = options.delayMs ? Date.now() + options.delayMs : 0;
+    const added = await redis.eval(
+      ENQUEUE_SCRIPT,
+      3,
+      DATA_KEY,
+      this.key(type, 'waiting'),
+      this.key(type, 'delayed'),
+      job.id,
+      JSON.stringify(job),
+      runAt
+    );
+
+    if (added === 0) {
+      logger.info(`Job ${job.id} (${type}) already queued, skipping`);
+      return null;
+    }
+
+    logger.info(`Enqueued job ${job.id} (${type})`);
+    return job.id;
+  }
+
+  /**
+   * Start processing jobs for every registered type
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    this.maintenanceTimer = setInterval(() => {
+      this.promoteDueJobs().catch((err) => logger.error(`Job queue maintenance failed: ${err}`));
+    }, MAINTENANCE_INTERVAL_MS);
+
+    for (const type of this.handlers.keys()) {
+      this.pollLoop(type).catch((err) => logger.error(`Job poll loop for ${type} stopped: ${err}`));
+    }
+
+    logger.info(`Job queue started for: ${Array.from(this.handlers.keys()).join(', ')}`);
+  }
+
+  /**
+   * Stop claiming new jobs. Jobs still running keep their lease until it
+   * expires, after which another worker (or this one after restart) resumes them.
+   */
+  stop(): void {
+    this.running = false;
+    if (this.maintenanceTimer) {
+      clearInterval(this.maintenanceTimer);
+      this.maintenanceTimer = null;
+    }
+    logger.info('Job queue stopped');
+  }
+
+  async getStats(): Promise<QueueStats> {
+    const stats: QueueStats = {};
+    for (const type of this.handlers.keys()) {
+      const [waiting, active, delayed] = await Promise.all([
+        redis.llen(this.key(type, 'waiting')),
+        redis.zcard(this.key(type, 'active')),
+        redis.zcard(this.key(type, 'delayed'))
+      ]);
+      stats[type] = { waiting, active, delayed };
+    }
+    return stats;
+  }
+
+  /**
+   * Whether a job with this ID is waiting, delayed or running
+   */
+  async has(jobId: string): Promise<boolean> {
+    return (await redis.hexists(DATA_KEY, jobId)) === 1;
+  }
+
+  async getDeadJobs(limit: number = 50): Promise<Job[]> {
+    const entries = await redis.lrange(DEAD_KEY, 0, limit - 1);
+    return entries.map((entry) => JSON.parse(entry));
+  }
+
+  private key(type: string, list: 'waiting' | 'active' | 'delayed'): string {
+    return `${KEY_PREFIX}:${type}:${list}`;
+  }
+
+  private async pollLoop(type: string): Promise<void> {
+    const registered = this.handlers.get(type)!;
+
+    while (this.running) {
+      if (registered.active >= registered.options.concurrency) {
+        await this.sleep(POLL_INTERVAL_MS);
+        continue;
+      }
+
+      let jobId: string | null = null;
+      try {
+        jobId = (await redis.eval(
+          CLAIM_SCRIPT,
+          2,
+          this.key(type, 'waiting'),
+          this.key(type, 'active'),
+          Date.now() + LEASE_MS
+        )) as string | null;
+      } catch (error) {
+        logger.error(`Failed to claim ${type} job: ${error}`);
+      }
+
+      if (!jobId) {
+        await this.sleep(POLL_INTERVAL_MS);
+        continue;
+      }
+
+      registered.active++;
+      this.processJob(type, jobId, registered)
+        .catch((err) => logger.error(`Unexpected error processing job ${jobId}: ${err}`))
+        .finally(() => {
+          registered.active--;
+        });
+    }
+  }
+
+  private async processJob(type: string, jobId: string, registered: RegisteredHandler): Promise<void> {
+    const raw = await redis.hget(DATA_KEY, jobId);
+    if (!raw) {
+      logger.warn(`Job ${jobId} (${type}) has no data, dropping`);
+      await redis.zrem(this.key(type, 'active'), jobId);
+      return;
+    }
+
+    const job: Job = JSON.parse(raw);
+    job.attempts++;
+    // Persist the attempt up front so a crash mid-job still counts against maxAttempts
+    await redis.hset(DATA_KEY, jobId, JSON.stringify(job));
+
+    const heartbeat = setInterval(() => {
+      redis
+        .zadd(this.key(type, 'active'), 'XX', Date.now() + LEASE_MS, jobId)
+        .catch((err) => logger.warn(`Heartbeat failed for job ${jobId}: ${err}`));
+    }, HEARTBEAT_MS);
+
+    try {
+      logger.info(`Processing job ${jobId} (${type}), attempt ${job.attempts}`);
+      await registered.handler(job);
+
+      await redis.multi().zrem(this.key(type, 'active'), jobId).hdel(DATA_KEY, jobId).exec();
+      logger.info(`Job ${jobId} (${type}) completed`);
+    } catch (error) {
+      job.lastError = error instanceof Error ? error.message : String(error);
+      const maxAttempts = job.maxAttempts ?? registered.options.maxAttempts;
+
+      if (job.attempts < maxAttempts) {
+        const delay = Math.min(registered.options.backoffMs * 2 ** (job.attempts - 1), MAX_BACKOFF_MS);
+        logger.warn(`Job ${jobId} (${type}) failed on attempt ${job.attempts}/${maxAttempts}, retrying in ${delay}ms: ${job.lastError}`);
+
+        await redis
+          .multi()
+          .zrem(this.key(type, 'active'), jobId)
+          .hset(DATA_KEY, jobId, JSON.stringify(job))
+          .zadd(this.key(type, 'delayed'), Date.now() + delay, jobId)
+          .exec();
+      } else {
+        logger.error(`Job ${jobId} (${type}) failed after ${job.attempts} attempts, moving to dead-letter list: ${job.lastError}`);
+        job.failedAt = Date.now();
+
+        await redis
+          .multi()
+          .zrem(this.key(type, 'active'), jobId)
+          .hdel(DATA_KEY, jobId)
+          .lpush(DEAD_KEY, JSON.stringify(job))
+          .ltrim(DEAD_KEY, 0, DEAD_LETTER_LIMIT - 1)
+          .exec();
+
+        if (registered.options.onFailed) {
+          try {
+            await registered.options.onFailed(job, error);
+          } catch (hookError) {
+            logger.error(`onFailed hook for job ${jobId} (${type}) threw: ${hookError}`);
+          }
+        }
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  /**
+   * Move delayed jobs whose backoff has elapsed, and stalled jobs whose lease
+   * expired, back into their waiting lists
+   */
+  private async promoteDueJobs(): Promise<void> {
+    const now = Date.now();
+
+    for (const type of this.handlers.keys()) {
+      await redis.eval(PROMOTE_SCRIPT, 2, this.key(type, 'delayed'), this.key(type, 'waiting'), now);
+
+      const stalled = await redis.eval(PROMOTE_SCRIPT, 2, this.key(type, 'active'), this.key(type, 'waiting'), now);
+      if (typeof stalled === 'number' && stalled > 0) {
+        logger.warn(`Requeued ${stalled} stalled ${type} job(s)`);
+      }
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
+
+export const jobQueue = new JobQueue();
@@ -0,0 +1,364 @@
+// src/features/jobs/PipelineReconciler.ts
+import crypto from "crypto";
+import prisma from "../../lib/prisma.js";
+import redis from "../../lib/redis.js";
+import logger from "../../utils/logger.js";
+import { jobQueue, JobTypes } from "./JobQueue.js";
+import { ResponseService } from "../response/services/ResponseService.js";
+import { StoryCompletionService } from "../events/StoryCompletionService.js";
+import { VideoService } from "../events/VideoService.js";
+import { StoryStatusService } from "../story/services/StoryStatusService.js";
+import { SpeechService } from "../story/services/SpeechService.js";
+import type { AnchorImagesJob, ReconcileOptions, ReconcileSummary, SceneAudioJob } from "./types/index.js";
+
+const responseService = new ResponseService();
+const storyCompletionService = new StoryCompletionService();
+const videoService = new VideoService();
+const storyStatusService = new StoryStatusService();
+const speechService = new SpeechService();
+
+const LOCK_KEY = 'saga:reconciler:lock';
+const DEFAULT_INTERVAL_MS = 5 * 60_000;
+const DEFAULT_STUCK_AFTER_MS = 15 * 60_000;
+const BATCH_SIZE = 50; // max rows re-driven per stage per pass
+
+// Release the lock only if this process still holds it
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then return redis.call('DEL', KEYS[1]) end
+return 0`;
+
+/**
+ * Periodically finds pipeline work that stopped moving (a webhook that never
+ * arrived, a job that was lost) and re-drives it through the stage's own
+ * completion handler. Only one instance runs a pass at a time.
+ */
+export class PipelineReconciler {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  start(): void {
+    if (this.timer) return;
+
+    const intervalMs = Number(process.env.RECONCILE_INTERVAL_MS) || DEFAULT_INTERVAL_MS;
+    this.timer = setInterval(() => {
+      this.tick(intervalMs).catch((err) => logger.error(`Pipeline reconciler pass failed: ${err}`));
+    }, intervalMs);
+
+    logger.info(`Pipeline reconciler started (every ${intervalMs}ms)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run a single reconcile pass over every stage
+   */
+  async runOnce(options: ReconcileOptions = {}): Promise<ReconcileSummary> {
+    const stuckAfterMs = options.stuckAfterMs ?? (Number(process.env.RECONCILE_STUCK_AFTER_MS) || DEFAULT_STUCK_AFTER_MS);
+    const cutoff = new Date(Date.now() - stuckAfterMs);
+    const storyFilter = options.storyId ? { story_id: options.storyId } : {};
+
+    const summary: ReconcileSummary = {
+      scripts: await this.reconcileScripts(cutoff, options.storyId),
+      anchors: await this.reconcileAnchors(cutoff, storyFilter),
+      images: await this.reconcileImages(cutoff, storyFilter),
+      audioSegments: await this.reconcileAudioSegments(cutoff, storyFilter),
+      mixes: await this.reconcileMixes(cutoff, options.storyId),
+      music: await this.reconcileMusic(cutoff, options.storyId),
+      videos: await this.reconcileVideos(cutoff, options.storyId)
+    };
+
+    const total = Object.values(summary).reduce((sum, count) => sum + count, 0);
+    if (total > 0) {
+      logger.info(`Pipeline reconciler re-drove ${total} item(s): ${JSON.stringify(summary)}`);
+    }
+
+    return summary;
+  }
+
+  private async tick(intervalMs: number): Promise<void> {
+    if (this.running) return;
+
+    // Shared lock so several app instances don't re-drive the same work
+    const token = crypto.randomUUID();
+    const acquired = await redis.set(LOCK_KEY, token, 'PX', intervalMs, 'NX');
+    if (!acquired) return;
+
+    this.running = true;
+    try {
+      await this.runOnce();
+    } finally {
+      this.running = false;
+      await redis.eval(RELEASE_LOCK_SCRIPT, 1, LOCK_KEY, token);
+    }
+  }
+
+  /**
+   * Stories still waiting on their script response
+   */
+  private async reconcileScripts(cutoff: Date, storyId?: string): Promise<number> {
+    const stories = await prisma.story.findMany({
+      where: {
+        ...(storyId ? { id: storyId } : {}),
+        status: 'processing',
+        response_id: { not: null },
+        updated_at: { lt: cutoff }
+      },
+      select: { id: true, response_id: true },
+      take: BATCH_SIZE
+    });
+
+    let count = 0;
+    for (const story of stories) {
+      if (await this.reconcileResponse(story.response_id!, `script for story ${story.id}`)) count++;
+    }
+    return count;
+  }
+
+  /**
+   * Anchor images whose response never came back, and anchors that were never submitted
+   */
+  private async reconcileAnchors(cutoff: Date, storyFilter: { story_id?: string }): Promise<number> {
+    let count = 0;
+
+    const processing = await prisma.anchor.findMany({
+      where: {
+        ...storyFilter,
+        status: 'processing',
+        openai_response_id: { not: null },
+        updated_at: { lt: cutoff }
+      },
+      select: { name: true, openai_response_id: true },
+      take: BATCH_SIZE
+    });
+
+    for (const anchor of processing) {
+      if (await this.reconcileResponse(anchor.openai_response_id!, `anchor ${anchor.name}`)) count++;
+    }
+
+    const pending = await prisma.anchor.findMany({
+      where: {
+        ...storyFilter,
+        status: 'pending',
+        appearances: { gte: 2 },
+        updated_at: { lt: cutoff },
+        story: { status: 'script_completed' }
+      },
+      select: { story_id: true, story: { select: { transcript: true } } },
+      distinct: ['story_id'],
+      take: BATCH_SIZE
+    });
+
+    for (const anchor of pending) {
+      try {
+        const scriptData = JSON.parse(anchor.story.transcript || '{}');
+        const jobId = await jobQueue.enqueue<AnchorImagesJob>(
+          JobTypes.ANCHOR_IMAGES,
+          { storyId: anchor.story_id, imageStyle: scriptData.metadata?.imageStyle },
+          { jobId: `${JobTypes.ANCHOR_IMAGES}:${anchor.story_id}` }
+        );
+        if (jobId) count++;
+      } catch (error) {
+        logger.error(`Reconciler failed to requeue anchor images for story ${anchor.story_id}: ${error}`);
+      }
+    }
+
+    return count;
+  }
+
+  /**
+   * Shot images whose response never came back
+   */
+  private async reconcileImages(cutoff: Date, storyFilter: { story_id?: string }): Promise<number> {
+    const images = await prisma.image.findMany({
+      where: {
+        ...storyFilter,
+        status: 'processing',
+        openai_response_id: { not: null },
+        updated_at: { lt: cutoff }
+      },
+      select: { scene_id: true, shot_number: true, openai_response_id: true },
+      orderBy: [{ scene_id: 'asc' }, { shot_number: 'asc' }],
+      take: BATCH_SIZE
+    });
+
+    let count = 0;
+    for (const image of images) {
+      if (await this.reconcileResponse(image.openai_response_id!, `image ${image.scene_id} shot ${image.shot_number}`)) count++;
+    }
+    return count;
+  }
+
+  /**
+   * Scene audio whose job was lost; the stable job ID makes this a no-op while the job still exists
+   */
+  private async reconcileAudioSegments(cutoff: Date, storyFilter: { story_id?: string }): Promise<number> {
+    const segments = await prisma.audioSegment.findMany({
+      where: {
+        ...storyFilter,
+        status: { in: ['pending', 'processing'] },
+        updated_at: { lt: cutoff },
+        story: { status: 'script_completed' }
+      },
+      select: { story_id: true, scene_id: true, scene_number: true, story: { select: { video: true } } },
+      take: BATCH_SIZE
+    });
+
+    let count = 0;
+    for (const segment of segments) {
+      try {
+        const jobId = await jobQueue.enqueue<SceneAudioJob>(
+          JobTypes.SCENE_AUDIO,
+          {
+            storyId: segment.story_id,
+            sceneId: segment.scene_id,
+            sceneNumber: segment.scene_number,
+            audioOnly: !segment.story.video
+          },
+          { jobId: `${JobTypes.SCENE_AUDIO}:${segment.story_id}:${segment.scene_id}` }
+        );
+        if (jobId) count++;
+      } catch (error) {
+        logger.error(`Reconciler failed to requeue audio for scene ${segment.scene_id}: ${error}`);
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Stories whose scene audio is all done but that never got mixed, such as a story
+   * left in audio_ready after its mix job was lost. A no-op while the mix job still exists.
+   */
+  private async reconcileMixes(cutoff: Date, storyId?: string): Promise<number> {
+    const stories = await prisma.story.findMany({
+      where: {
+        ...(storyId ? { id: storyId } : {}),
+        status: { in: ['script_completed', 'audio_ready'] },
+        updated_at: { lt: cutoff },
+        audioSegments: { some: {}, every: { status: 'completed' } }
+      },
+      select: { id: true, video: true },
+      take: BATCH_SIZE
+    });
+
+    let count = 0;
+    for (const story of stories) {
+      try {
+        if (await speechService.queueMix(story.id, !story.video)) count++;
+      } catch (error) {
+        logger.error(`Reconciler failed to requeue the mix for story ${story.id}: ${error}`);
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Video stories with no background music, or whose completion check never ran after the music arrived
+   */
+  private async reconcileMusic(cutoff: Date, storyId?: string): Promise<number> {
+    const stories = await prisma.story.findMany({
+      where: {
+        ...(storyId ? { id: storyId } : {}),
+        video: true,
+        status: { in: ['script_completed', 'audio_ready', 'audio_completed'] },
+        updated_at: { lt: cutoff },
+        // Stories waiting for script review haven't started media generation yet
+        OR: [{ review_script: false }, { script_approved_at: { not: null } }]
+      },
+      include: { music: { where: { status: 'completed' }, select: { id: true } } },
+      take: BATCH_SIZE
+    });
+
+    let count = 0;
+    for (const story of stories) {
+      try {
+        if (story.music.length === 0) {
+          await responseService.queueMusicGeneration(story);
+          count++;
+        } else if (story.status === 'audio_completed') {
+          await storyCompletionService.checkStoryCompletion(story.id);
+          count++;
+        }
+      } catch (error) {
+        logger.error(`Reconciler failed to re-drive music for story ${story.id}: ${error}`);
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Rendered videos that never got a Cloudflare Stream ready webhook. Counts only
+   * stories that were uploaded again or whose status changed.
+   */
+  private async reconcileVideos(cutoff: Date, storyId?: string): Promise<number> {
+    // Without Stream nothing ever moves these stories on, so re-driving them is pointless
+    if (!videoService.isStreamConfigured()) {
+      return 0;
+    }
+
+    const stories = await prisma.story.findMany({
+      where: {
+        ...(storyId ? { id: storyId } : {}),
+        status: 'do_completed',
+        updated_at: { lt: cutoff }
+      },
+      select: { id: true, video_url: true, cloudflare_id: true },
+      take: BATCH_SIZE
+    });
+
+    let count = 0;
+    for (const story of stories) {
+      try {
+        if (!story.cloudflare_id) {
+          // The Stream upload itself never went through
+          if (story.video_url && await videoService.uploadToCloudflareStream(story.video_url, story.id)) {
+            count++;
+          }
+          continue;
+        }
+
+        const video = await videoService.getCloudflareStreamVideo(story.cloudflare_id);
+        if (!video) continue;
+
+        if (video.readyToStream) {
+          if (await responseService.handleCloudflareVideoReady(video)) {
+            count++;
+          }
+        } else if (video.status?.state === 'error') {
+          const reason = video.status.errorReasonText || video.status.errorReasonCode || 'unknown error';
+          await storyStatusService.transition(story.id, 'failed', {
+            reason: `Cloudflare Stream processing failed: ${reason}`,
+            data: { error: String(reason) }
+          });
+          count++;
+        }
+      } catch (error) {
+        logger.error(`Reconciler failed to check Cloudflare Stream for story ${story.id}: ${error}`);
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Poll one OpenAI response; returns true if it had settled and was handled
+   */
+  private async reconcileResponse(responseId: string, label: string): Promise<boolean> {
+    try {
+      const status = await responseService.reconcileResponse(responseId);
+      if (status === 'completed' || status === 'failed' || status === 'cancelled' || status === 'incomplete') {
+        logger.info(`Reconciled ${label} (${responseId}): ${status}`);
+        return true;
+      }
+      return false;
+    } catch (error) {
+      logger.error(`Reconciler failed to settle ${label} (${responseId}): ${error}`);
+      return false;
+    }
+  }
+}
+
+export const pipelineReconciler = new PipelineReconciler();
@@ -0,0 +1,222 @@
+// src/features/jobs/pipelineJobs.ts
+import prisma from "../../lib/prisma.js";
+import logger from "../../utils/logger.js";
+import { jobQueue, JobTypes } from "./JobQueue.js";
+import { ImageService } from "../story/services/ImageService.js";
+import { SpeechService } from "../story/services/SpeechService.js";
+import { MusicService } from "../story/services/MusicService.js";
+import { StoryCompletionService } from "../events/StoryCompletionService.js";
+import { VideoService } from "../events/VideoService.js";
+import { StoryStatusService, StoryCancelledError } from "../story/services/StoryStatusService.js";
+import { StreamCaptionService } from "../story/services/StreamCaptionService.js";
+import { HighlightService } from "../story/services/HighlightService.js";
+import { CoverService } from "../story/services/CoverService.js";
+import { AudiogramService } from "../story/services/AudiogramService.js";
+import { ResponseService } from "../response/services/ResponseService.js";
+import type { MediaPipelineJob, AnchorImagesJob, MusicJob, SceneAudioJob, MixJob, VideoJob, CaptionJob, HighlightsJob, CoverJob, AudiogramJob } from "./types/index.js";
+
+const imageService = new ImageService();
+const speechService = new SpeechService();
+const musicService = new MusicService();
+const storyCompletionService = new StoryCompletionService();
+const videoService = new VideoService();
+const storyStatusService = new StoryStatusService();
+const streamCaptionService = new StreamCaptionService();
+const highlightService = new HighlightService();
+const coverService = new CoverService();
+const audiogramService = new AudiogramService();
+const responseService = new ResponseService();
+
+// ElevenLabs concurrency limit for text-to-dialogue calls
+const MAX_CONCURRENT_SCENE_AUDIO = 10;
+
+/**
+ * Register handlers for every stage of the generation pipeline.
+ * Called once at startup, before jobQueue.start().
+ */
+export function registerPipelineJobs(): void {
+  // Media generation of a story whose reviewed script was approved
+  jobQueue.register<MediaPipelineJob>(
+    JobTypes.MEDIA_PIPELINE,
+    async ({ payload }) => {
+      if (await storyStatusService.isCancelled(payload.storyId)) {
+        logger.info(`Story ${payload.storyId} was cancelled, skipping media generation`);
+        return;
+      }
+      await responseService.startMediaGeneration(payload.storyId);
+    },
+    {
+      concurrency: 2,
+      onFailed: async ({ payload }, error) => {
+        await storyStatusService.transition(payload.storyId, 'failed', {
+          reason: `Media generation failed to start: ${error}`,
+          data: { error: String(error) }
+        });
+      }
+    }
+  );
+
+  jobQueue.register<AnchorImagesJob>(
+    JobTypes.ANCHOR_IMAGES,
+    async ({ payload }) => {
+      await imageService.generateAnchorImages(payload.storyId, payload.imageStyle);
+    },
+    { concurrency: 2 }
+  );
+
+  jobQueue.register<MusicJob>(
+    JobTypes.MUSIC,
+    async ({ payload }) => {
+      if (await storyStatusService.isCancelled(payload.storyId)) {
+        logger.info(`Story ${payload.storyId} was cancelled, skipping music`);
+        return;
+      }
+
+      const existing = await musicService.getMusicByStoryId(payload.storyId);
+      if (existing?.status === 'completed' && existing.audio_url) {
+        logger.info(`Music already generated for story ${payload.storyId}, skipping`);
+      } else {
+        const musicId = await musicService.generateMusic(payload.storyId, payload.prompt, payload.duration);
+        logger.info(`Music generation completed for story ${payload.storyId}: ${musicId}`);
+      }
+
+      const story = await prisma.story.findUnique({
+        where: { id: payload.storyId },
+        select: { video: true }
+      });
+
+      // Audio-only stories pick the music up during mixing
+      if (story?.video) {
+        await storyCompletionService.checkStoryCompletion(payload.storyId);
+      }
+    },
+    { concurrency: 2 }
+  );
+
+  jobQueue.register<SceneAudioJob>(
+    JobTypes.SCENE_AUDIO,
+    async ({ payload }) => {
+      await speechService.generateAudioForSceneJob(payload);
+    },
+    {
+      concurrency: MAX_CONCURRENT_SCENE_AUDIO,
+      onFailed: async ({ payload }) => {
+        await speechService.markSceneFailed(payload.storyId, payload.sceneId);
+      }
+    }
+  );
+
+  // Joins the scene audio once every scene is voiced; a stable job ID per story
+  jobQueue.register<MixJob>(
+    JobTypes.MIX,
+    async ({ payload }) => {
+      await speechService.mixStoryAudioJob(payload);
+    },
+    {
+      concurrency: 2,
+      maxAttempts: 3,
+      backoffMs: 30000,
+      onFailed: async ({ payload }, error) => {
+        await speechService.markMixFailed(payload.storyId, error);
+      }
+    }
+  );
+
+  jobQueue.register<VideoJob>(
+    JobTypes.VIDEO,
+    async ({ payload }) => {
+      try {
+        const videoUrl = await videoService.generateVideo(payload.storyId);
+        logger.info(`🎬 Video generation completed for story ${payload.storyId}: ${videoUrl}`);
+
+        // A shot changed mid-render; highlights are cut from the next render instead
+        if (await storyCompletionService.rerenderIfPending(payload.storyId)) {
+          return;
+        }
+
+        const story = await prisma.story.findUnique({
+          where: { id: payload.storyId },
+          select: { highlight_count: true }
+        });
+        if (story?.highlight_count) {
+          await highlightService.queueHighlights(payload.storyId, story.highlight_count);
+        }
+      } catch (error) {
+        if (error instanceof StoryCancelledError) {
+          logger.info(`Video render stopped, story ${payload.storyId} was cancelled`);
+          return;
+        }
+        throw error;
+      }
+    },
+    {
+      concurrency: 1,
+      maxAttempts: 3,
+      backoffMs: 30000,
+      onFailed: async ({ payload }, error) => {
+        await storyStatusService.transition(payload.storyId, 'failed', {
+          reason: `Video generation failed: ${error}`,
+          data: { error: String(error) }
+        });
+      }
+    }
+  );
+
+  jobQueue.register<CaptionJob>(
+    JobTypes.CAPTION,
+    async ({ payload }) => {
+      await streamCaptionService.pollCaption(payload.captionId);
+    },
+    {
+      concurrency: 5,
+      maxAttempts: 3,
+      backoffMs: 30000,
+      onFailed: async ({ payload }, error) => {
+        await streamCaptionService.finishCaption(payload.captionId, 'failed', String(error));
+      }
+    }
+  );
+
+  jobQueue.register<HighlightsJob>(
+    JobTypes.HIGHLIGHTS,
+    async ({ payload }) => {
+      await highlightService.generateHighlights(payload.storyId, payload.count);
+    },
+    {
+      concurrency: 1,
+      maxAttempts: 2,
+      backoffMs: 60000,
+      onFailed: async ({ payload }, error) => {
+        await highlightService.markPendingFailed(payload.storyId, String(error));
+      }
+    }
+  );
+
+  // A story without a cover still completes, so failures are only logged
+  jobQueue.register<CoverJob>(
+    JobTypes.COVER,
+    async ({ payload }) => {
+      await coverService.generateCover(payload.storyId);
+    },
+    {
+      concurrency: 2,
+      maxAttempts: 3,
+      backoffMs: 30000
+    }
+  );
+
+  jobQueue.register<AudiogramJob>(
+    JobTypes.AUDIOGRAM,
+    async ({ payload }) => {
+      await audiogramService.generateAudiogram(payload.storyId);
+    },
+    {
+      concurrency: 1,
+      maxAttempts: 2,
+      backoffMs: 60000,
+      onFailed: async ({ payload }, error) => {
+        await audiogramService.markFailed(payload.storyId, String(error));
+      }
+    }
+  );
+}
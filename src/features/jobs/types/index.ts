@@ -0,0 +1,95 @@
+// src/features/jobs/types/index.ts
+export interface Job<T = any> {
+  id: string;
+  type: string;
+  payload: T;
+  attempts: number;        // attempts made so far
+  maxAttempts?: number;    // overrides the handler default when set
+  createdAt: number;
+  lastError?: string;
+  failedAt?: number;       // set when moved to the dead-letter list
+}
+
+export interface EnqueueOptions {
+  jobId?: string;          // stable ID: enqueueing again while the job exists is a no-op
+  maxAttempts?: number;
+  delayMs?: number;
+}
+
+export interface JobHandlerOptions<T = any> {
+  concurrency?: number;    // max jobs of this type processed at once
+  maxAttempts?: number;    // default attempts before dead-lettering
+  backoffMs?: number;      // base delay for exponential backoff between attempts
+  onFailed?: (job: Job<T>, error: unknown) => Promise<void>; // called once the job is dead-lettered
+}
+
+export type JobHandler<T = any> = (job: Job<T>) => Promise<void>;
+
+export interface QueueStats {
+  [type: string]: { waiting: number; active: number; delayed: number };
+}
+
+// Pipeline job payloads
+export interface MediaPipelineJob {
+  storyId: string;
+}
+
+export interface AnchorImagesJob {
+  storyId: string;
+  imageStyle: string;
+}
+
+export interface MusicJob {
+  storyId: string;
+  prompt: string;
+  duration: number;
+}
+
+export interface SceneAudioJob {
+  storyId: string;
+  sceneId: string;
+  sceneNumber: number;
+  audioOnly: boolean;
+}
+
+export interface MixJob {
+  storyId: string;
+  audioOnly: boolean;
+}
+
+export interface VideoJob {
+  storyId: string;
+}
+
+export interface CaptionJob {
+  captionId: string;
+}
+
+export interface HighlightsJob {
+  storyId: string;
+  count: number;
+}
+
+export interface CoverJob {
+  storyId: string;
+}
+
+export interface AudiogramJob {
+  storyId: string;
+}
+
+// Stuck-pipeline reconciler
+export interface ReconcileOptions {
+  storyId?: string;        // limit the pass to one story
+  stuckAfterMs?: number;   // how long work may sit untouched before it counts as stuck
+}
+
+export interface ReconcileSummary {
+  scripts: number;
+  anchors: number;
+  images: number;
+  audioSegments: number;
+  mixes: number;
+  music: number;
+  videos: number;
+}
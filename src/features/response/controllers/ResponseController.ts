@@ -7,26 +7,39 @@ const responseService = new ResponseService();
 
 export class ResponseController {
   async handleWebhook(req: Request, res: Response): Promise<void> {
-    try {
-      const webhookData: WebhookEvent = req.body;
+    const webhookData: WebhookEvent = req.body;
+    // webhook-id is stable across redeliveries of the same event
+    const eventId = req.header('webhook-id') || webhookData.id;
 
+    try {
       logger.info(`Received webhook: ${webhookData.type} for ${webhookData.data.id}`);
 
+      if (!(await responseService.claimWebhookEvent('openai', eventId))) {
+        logger.info(`Duplicate OpenAI webhook ${eventId}, already processed`);
+        res.status(200).json({ received: true, duplicate: true });
+        return;
+      }
+
       // Process the webhook
       await responseService.handleWebhook(webhookData);
 
       res.status(200).json({ received: true });
     } catch (error) {
       logger.error(`Webhook error: ${error}`);
+      await responseService
+        .releaseWebhookEvent('openai', eventId)
+        .catch((err) => logger.error(`Failed to release webhook event ${eventId}: ${err}`));
       res.status(500).json({ error: "Internal server error" });
     }
   }
 
   // In ResponseController class
 async handleCloudflareWebhook(req: Request, res: Response): Promise<void> {
+  const webhookData = req.body;
+  // Cloudflare doesn't send an event ID; a video reaches each state once
+  const eventId = `${webhookData.uid}:${webhookData.status?.state}`;
+
   try {
-    const webhookData = req.body;
-    
     logger.info(`Received Cloudflare webhook for video: ${webhookData.meta?.name || 'unknown'}`);
     
     // Only process if the video is ready
@@ -35,13 +48,22 @@ async handleCloudflareWebhook(req: Request, res: Response): Promise<void> {
       res.status(200).json({ received: true });
       return;
     }
+
+    if (!(await responseService.claimWebhookEvent('cloudflare', eventId))) {
+      logger.info(`Duplicate Cloudflare webhook ${eventId}, already processed`);
+      res.status(200).json({ received: true, duplicate: true });
+      return;
+    }
     
     await responseService.handleCloudflareVideoReady(webhookData);
     
     res.status(200).json({ received: true });
   } catch (error) {
     logger.error(`Cloudflare webhook error: ${error}`);
+    await responseService
+      .releaseWebhookEvent('cloudflare', eventId)
+      .catch((err) => logger.error(`Failed to release webhook event ${eventId}: ${err}`));
     res.status(500).json({ error: "Internal server error" });
   }
 }
-}
\ No newline at end of file
+}
@@ -1,16 +1,25 @@
 import prisma from "../../../lib/prisma.js";
 import axios from "axios";
 import logger from "../../../utils/logger.js";
+import { Prisma } from "@prisma/client";
+import type { Story } from "@prisma/client";
 import type { WebhookEvent, OpenAIResponseData } from "../../story/types/index.js";
 import { ImageService } from "../../story/services/ImageService.js";
 import { SpeechService } from "../../story/services/SpeechService.js";
-import { MusicService } from "../../story/services/MusicService.js";
 import { StoryCompletionService } from "../../events/StoryCompletionService.js";
+import { StoryStatusService } from "../../story/services/StoryStatusService.js";
+import { jobQueue, JobTypes } from "../../jobs/JobQueue.js";
+import { scriptProvider } from "../../story/providers/index.js";
+import type { AnchorImagesJob, MusicJob } from "../../jobs/types/index.js";
 
 const imageService = new ImageService();
 const speechService = new SpeechService();
-const musicService = new MusicService();
 const storyCompletionService = new StoryCompletionService();
+const storyStatusService = new StoryStatusService();
+
+// OpenAI webhook events and response statuses for background responses that will never complete
+const FAILED_WEBHOOK_TYPES = ['response.failed', 'response.cancelled', 'response.incomplete'];
+const FAILED_RESPONSE_STATUSES = ['failed', 'cancelled', 'incomplete'];
 
 export class ResponseService {
   private buildMusicPrompt(style: string, tone: string): string {
@@ -37,15 +46,45 @@ export class ResponseService {
     return `${basePrompt}, ${styleDesc}, ${toneDesc}`;
   }
 
+  /**
+   * Record a webhook delivery before processing it.
+   * Returns false if the same event was already received, so the caller can acknowledge without reprocessing.
+   */
+  async claimWebhookEvent(source: 'openai' | 'cloudflare', eventId: string): Promise<boolean> {
+    try {
+      await prisma.processedWebhook.create({
+        data: { source, event_id: eventId }
+      });
+      return true;
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Forget a webhook delivery whose processing failed, so a redelivery is processed again
+   */
+  async releaseWebhookEvent(source: 'openai' | 'cloudflare', eventId: string): Promise<void> {
+    await prisma.processedWebhook.deleteMany({
+      where: { source, event_id: eventId }
+    });
+  }
+
   async handleWebhook(webhookData: WebhookEvent): Promise<void> {
     try {
-      if (webhookData.type !== 'response.completed') {
+      const isCompleted = webhookData.type === 'response.completed';
+      const isFailed = FAILED_WEBHOOK_TYPES.includes(webhookData.type);
+
+      if (!isCompleted && !isFailed) {
         logger.info(`Ignoring webhook type: ${webhookData.type}`);
         return;
       }
 
       const responseId = webhookData.data.id;
-      logger.info(`Processing completed response: ${responseId}`);
+      logger.info(`Processing ${webhookData.type} for response: ${responseId}`);
 
       // 1. Check if this response exists in our database
       const response = await prisma.response.findUnique({
@@ -57,25 +96,121 @@ export class ResponseService {
         return;
       }
 
-      // 2. Get the full response data from OpenAI
-      const responseData = await this.getOpenAIResponse(responseId);
-
-      // 3. Handle based on response type
-      if (response.type === 'script') {
-        await this.handleScriptCompletion(responseId, responseData);
-      } else if (response.type === 'image') {
-        await this.handleImageCompletion(responseId, responseData);
-      } else if (response.type === 'anchor') {
-        await this.handleAnchorCompletion(responseId, responseData);
+      if (isFailed) {
+        await this.handleFailedResponse(response.type, responseId, `OpenAI ${webhookData.type}`);
+        return;
       }
 
+      // 2. Fetch the result and handle it based on response type
+      await this.settleResponse(response.type, responseId);
+
     } catch (error) {
       logger.error(`Error handling webhook: ${error}`);
       throw error;
     }
   }
 
-  private async getOpenAIResponse(responseId: string): Promise<OpenAIResponseData> {
+  /**
+   * Poll OpenAI for a response whose webhook never arrived and settle it through the same handlers.
+   * Returns the OpenAI status; responses still queued or in progress are left alone.
+   */
+  async reconcileResponse(responseId: string): Promise<string> {
+    const response = await prisma.response.findUnique({
+      where: { response_id: responseId }
+    });
+
+    if (!response) {
+      logger.warn(`Response not found in database: ${responseId}`);
+      return 'unknown';
+    }
+
+    return this.settleResponse(response.type, responseId);
+  }
+
+  /**
+   * Fetch a response's current state and act on it if it completed or failed. Returns its status.
+   * Scripts come from the script provider; image and anchor responses from OpenAI.
+   */
+  private async settleResponse(type: string, responseId: string): Promise<string> {
+    if (type === 'script') {
+      const scriptResponse = await scriptProvider.getScript(responseId);
+      if (scriptResponse.status === 'completed' && scriptResponse.script) {
+        await this.handleScriptCompletion(responseId, scriptResponse.script);
+      } else if (FAILED_RESPONSE_STATUSES.includes(scriptResponse.status)) {
+        await this.handleFailedResponse(type, responseId, scriptResponse.error || `Script response ${scriptResponse.status}`);
+      }
+      return scriptResponse.status;
+    }
+
+    const responseData = await this.getOpenAIResponse(responseId);
+
+    if (responseData.status === 'completed') {
+      await this.dispatchCompletedResponse(type, responseId, responseData);
+    } else if (FAILED_RESPONSE_STATUSES.includes(responseData.status)) {
+      await this.handleFailedResponse(type, responseId, `OpenAI response ${responseData.status}`);
+    }
+
+    return responseData.status;
+  }
+
+  private async dispatchCompletedResponse(type: string, responseId: string, responseData: OpenAIResponseData): Promise<void> {
+    if (type === 'image') {
+      await this.handleImageCompletion(responseId, responseData);
+    } else if (type === 'anchor') {
+      await this.handleAnchorCompletion(responseId, responseData);
+    }
+  }
+
+  /**
+   * Mark whatever was waiting on a failed, cancelled or incomplete response as failed, and let its stage move on
+   */
+  private async handleFailedResponse(type: string, responseId: string, reason: string): Promise<void> {
+    logger.warn(`Response ${responseId} (${type}) did not complete: ${reason}`);
+
+    // Only settle work that is still waiting; cancelled stories already stopped these rows
+    if (type === 'script') {
+      const story = await prisma.story.findUnique({
+        where: { response_id: responseId },
+        select: { id: true, status: true }
+      });
+      if (story?.status === 'processing') {
+        await storyStatusService.transition(story.id, 'failed', {
+          reason: `Script generation failed: ${reason}`,
+          data: { error: reason }
+        });
+      }
+    } else if (type === 'image') {
+      const image = await prisma.image.findUnique({
+        where: { openai_response_id: responseId },
+        select: { id: true, story_id: true, status: true }
+      });
+      if (image?.status === 'processing') {
+        await prisma.image.update({
+          where: { id: image.id },
+          data: { status: 'failed', error: reason }
+        });
+        await storyCompletionService.checkStoryCompletion(image.story_id);
+      }
+    } else if (type === 'anchor') {
+      const anchor = await prisma.anchor.findFirst({
+        where: { openai_response_id: responseId },
+        select: { id: true, story_id: true, status: true }
+      });
+      if (anchor?.status === 'processing') {
+        await prisma.anchor.update({
+          where: { id: anchor.id },
+          data: { status: 'failed' }
+        });
+        // Scenes fall back to text-only prompts for a failed anchor
+        await this.checkAndTriggerAudioGeneration(anchor.story_id);
+      }
+    }
+  }
+
+  /**
+   * Fetch a background response from OpenAI
+   */
+  async getOpenAIResponse(responseId: string): Promise<OpenAIResponseData> {
     try {
       const apiKey = process.env.OPENAI_API_KEY;
       if (!apiKey) {
@@ -99,7 +234,30 @@ export class ResponseService {
     }
   }
 
-  private async handleScriptCompletion(responseId: string, responseData: OpenAIResponseData): Promise<void> {
+  /**
+   * Cancel a background response that is still queued or running
+   */
+  async cancelOpenAIResponse(responseId: string): Promise<void> {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error('OpenAI API key not configured');
+    }
+
+    await axios.post(
+      `https://api.openai.com/v1/responses/${responseId}/cancel`,
+      {},
+      {
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json'
+        }
+      }
+    );
+
+    logger.info(`Cancelled OpenAI response: ${responseId}`);
+  }
+
+  private async handleScriptCompletion(responseId: string, scriptData: Record<string, any>): Promise<void> {
     try {
       // Find the story with this response_id
       const story = await prisma.story.findUnique({
@@ -111,31 +269,67 @@ export class ResponseService {
         return;
       }
 
-      // Extract the script from the response
-      const messageOutput = responseData.output?.find(output => output.type === 'message');
-      if (!messageOutput?.content) {
-        throw new Error('No message content found in response');
-      }
-
-      const textContent = messageOutput.content.find(content => content.type === 'output_text');
-      if (!textContent?.text) {
-        throw new Error('No text content found in response');
+      if (story.status === 'cancelled') {
+        logger.info(`Story ${story.id} was cancelled, discarding its script`);
+        return;
       }
 
-      const scriptData = JSON.parse(textContent.text);
-
       // Update the story with script data
-      await prisma.story.update({
-        where: { id: story.id },
+      await storyStatusService.transition(story.id, 'script_completed', {
+        reason: 'Script received',
         data: {
           title: scriptData.title,
-          transcript: JSON.stringify(scriptData),
-          status: 'script_completed'
+          transcript: JSON.stringify(scriptData)
         }
       });
 
       logger.info(`Story script completed: ${story.id} - ${story.video ? 'video' : 'audio-only'} mode`);
 
+      // Review mode: stop here until the user approves the script
+      if (story.review_script) {
+        logger.info(`Story ${story.id} is awaiting script review before media generation`);
+        return;
+      }
+
+      await this.runMediaPipeline(story, scriptData);
+
+    } catch (error) {
+      logger.error(`Error handling script completion: ${error}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Start media generation for a story whose script has been approved
+   */
+  async startMediaGeneration(storyId: string): Promise<void> {
+    const story = await prisma.story.findUnique({
+      where: { id: storyId }
+    });
+
+    if (!story?.transcript) {
+      logger.warn(`Story ${storyId} has no script to generate media from`);
+      return;
+    }
+
+    await this.runMediaPipeline(story, JSON.parse(story.transcript));
+  }
+
+  /**
+   * Queue background music for a story. The stable job ID keeps it from being generated twice.
+   */
+  async queueMusicGeneration(story: Story): Promise<void> {
+    const duration = typeof story.duration === 'string' ? parseInt(story.duration, 10) : story.duration;
+
+    await jobQueue.enqueue<MusicJob>(
+      JobTypes.MUSIC,
+      { storyId: story.id, prompt: this.buildMusicPrompt(story.style, story.tone), duration },
+      { jobId: `${JobTypes.MUSIC}:${story.id}` }
+    );
+  }
+
+  private async runMediaPipeline(story: Story, scriptData: any): Promise<void> {
+    try {
       // Determine if this is an audio-only story
       const isAudioOnly = !story.video;
 
@@ -143,27 +337,10 @@ export class ResponseService {
         // Audio-only flow: skip anchors/images, go straight to audio + music
         logger.info(`Audio-only story ${story.id}: skipping anchors and images`);
 
-        // Fire-and-forget: kick off music generation
-        const duration = typeof story.duration === 'string' ? parseInt(story.duration, 10) : story.duration;
-        const musicPrompt = this.buildMusicPrompt(story.style, story.tone);
-        
-        const musicPromise = musicService
-          .generateMusic(story.id, musicPrompt, duration)
-          .then((musicId) => {
-            logger.info(`Music generation completed for audio-only story ${story.id}: ${musicId}`);
-          })
-          .catch((err) => logger.error(`Music generation failed for story ${story.id}: ${err}`));
-
-        // Fire-and-forget: kick off audio generation (with audio-only flag)
-        const audioPromise = speechService
-          .generateAudioForStory(story.id, scriptData, true) // true = audio-only mode
-          .then(() => {
-            logger.info(`Audio generation finished for audio-only story ${story.id}`);
-          })
-          .catch((err) => logger.error(`Audio generation failed for story ${story.id}: ${err}`));
-
-        // Both processes run in parallel
-        await Promise.allSettled([musicPromise, audioPromise]);
+        // Queue music and per-scene audio; both run in parallel on the job queue
+        await this.queueMusicGeneration(story);
+
+        await speechService.generateAudioForStory(story.id, scriptData, true); // true = audio-only mode
 
       } else {
         // Video flow: existing logic with anchors/images
@@ -171,21 +348,15 @@ export class ResponseService {
         // Store all anchors in database (only for video mode)
         await this.storeAnchors(story.id, scriptData);
 
-        // Fire off anchor image generation for entities appearing 2+ times
-        imageService
-          .generateAnchorImages(story.id, scriptData.metadata.imageStyle)
-          .catch((err) => logger.error(`Anchor image generation failed for story ${story.id}: ${err}`));
-
-        // Fire-and-forget: kick off music generation
-        const duration = typeof story.duration === 'string' ? parseInt(story.duration, 10) : story.duration;
-        const musicPrompt = this.buildMusicPrompt(story.style, story.tone);
-        musicService
-          .generateMusic(story.id, musicPrompt, duration)
-          .then(async (musicId) => {
-            logger.info(`Music generation initiated for story ${story.id}: ${musicId}`);
-            await storyCompletionService.checkStoryCompletion(story.id);
-          })
-          .catch((err) => logger.error(`Music generation failed for story ${story.id}: ${err}`));
+        // Queue anchor image generation for entities appearing 2+ times
+        await jobQueue.enqueue<AnchorImagesJob>(
+          JobTypes.ANCHOR_IMAGES,
+          { storyId: story.id, imageStyle: scriptData.metadata.imageStyle },
+          { jobId: `${JobTypes.ANCHOR_IMAGES}:${story.id}` }
+        );
+
+        // Queue music generation; the job re-checks story completion when done
+        await this.queueMusicGeneration(story);
 
         // Check if anchors are needed for video mode
         const neededAnchors = await prisma.anchor.count({
@@ -198,26 +369,15 @@ export class ResponseService {
         if (neededAnchors === 0) {
           logger.info(`No anchor images needed for story ${story.id}. Starting audio generation now.`);
 
-          speechService
-            .generateAudioForStory(story.id, scriptData, false) // false = video mode
-            .then(async () => {
-              logger.info(`Audio generation finished for story ${story.id}`);
-              
-              await prisma.story.update({
-                where: { id: story.id },
-                data: { status: 'audio_completed' }
-              });
-              
-              await storyCompletionService.checkStoryCompletion(story.id);
-            })
-            .catch((err) => logger.error(`Audio generation failed for story ${story.id}: ${err}`));
+          // Mixing marks the story audio_completed and re-checks completion
+          await speechService.generateAudioForStory(story.id, scriptData, false); // false = video mode
         } else {
           logger.info(`Story ${story.id} requires ${neededAnchors} anchor images. Waiting for completion before audio.`);
         }
       }
 
     } catch (error) {
-      logger.error(`Error handling script completion: ${error}`);
+      logger.error(`Error running media pipeline for story ${story.id}: ${error}`);
       throw error;
     }
   }
@@ -232,8 +392,10 @@ export class ResponseService {
     // Store character anchors
     if (scriptData.metadata.anchors.characters) {
       for (const character of scriptData.metadata.anchors.characters) {
-        await prisma.anchor.create({
-          data: {
+        // Upsert so a re-processed script doesn't trip the [story_id, anchor_uuid] constraint
+        await prisma.anchor.upsert({
+          where: { story_id_anchor_uuid: { story_id: storyId, anchor_uuid: character.uuid } },
+          create: {
             story_id: storyId,
             anchor_uuid: character.uuid,
             type: 'character',
@@ -241,7 +403,8 @@ export class ResponseService {
             description: character.description,
             appearances: character.appearances,
             status: character.appearances >= 2 ? 'pending' : 'not_needed'
-          }
+          },
+          update: {}
         });
       }
     }
@@ -249,8 +412,10 @@ export class ResponseService {
     // Store setting anchors
     if (scriptData.metadata.anchors.settings) {
       for (const setting of scriptData.metadata.anchors.settings) {
-        await prisma.anchor.create({
-          data: {
+        // Upsert so a re-processed script doesn't trip the [story_id, anchor_uuid] constraint
+        await prisma.anchor.upsert({
+          where: { story_id_anchor_uuid: { story_id: storyId, anchor_uuid: setting.uuid } },
+          create: {
             story_id: storyId,
             anchor_uuid: setting.uuid,
             type: 'setting',
@@ -258,7 +423,8 @@ export class ResponseService {
             description: setting.description,
             appearances: setting.appearances,
             status: setting.appearances >= 2 ? 'pending' : 'not_needed'
-          }
+          },
+          update: {}
         });
       }
     }
@@ -332,17 +498,13 @@ export class ResponseService {
         return;
       }
 
-      // Existing anchor checking logic for video stories
-      const requiredAnchors = await prisma.anchor.count({
-        where: { story_id: storyId, appearances: { gte: 2 } }
-      });
-
-      const completedAnchors = await prisma.anchor.count({
-        where: { story_id: storyId, appearances: { gte: 2 }, status: 'completed' }
+      // Wait until every anchor image has settled; failed anchors are skipped as references
+      const outstandingAnchors = await prisma.anchor.count({
+        where: { story_id: storyId, appearances: { gte: 2 }, status: { in: ['pending', 'processing'] } }
       });
 
-      if (completedAnchors < requiredAnchors) {
-        logger.info(`Story ${storyId} still waiting for ${requiredAnchors - completedAnchors} anchor images`);
+      if (outstandingAnchors > 0) {
+        logger.info(`Story ${storyId} still waiting for ${outstandingAnchors} anchor images`);
         return;
       }
 
@@ -359,22 +521,10 @@ export class ResponseService {
       // Parse script data
       const scriptData = JSON.parse(story.transcript);
 
-      logger.info(`All anchor images completed for story ${storyId}. Starting audio generation.`);
-
-      // Fire-and-forget: kick off audio generation (video mode)
-      speechService
-        .generateAudioForStory(storyId, scriptData, false) // false = video mode
-        .then(async () => {
-          logger.info(`Audio generation finished for story ${storyId}`);
-          
-          await prisma.story.update({
-            where: { id: storyId },
-            data: { status: 'audio_completed' }
-          });
-          
-          await storyCompletionService.checkStoryCompletion(storyId);
-        })
-        .catch((err) => logger.error(`Audio generation failed for story ${storyId}: ${err}`));
+      logger.info(`All anchor images settled for story ${storyId}. Starting audio generation.`);
+
+      // Queue per-scene audio generation (video mode); mixing re-checks completion
+      await speechService.generateAudioForStory(storyId, scriptData, false); // false = video mode
 
     } catch (error) {
       logger.error(`Error checking and triggering audio generation for story ${storyId}: ${error}`);
@@ -394,6 +544,11 @@ export class ResponseService {
 
       // Delegate all image processing to ImageService (on error it marks the row failed)
       await imageService.handleImageCompletion(responseId, responseData);
+
+      // A shot regenerated after the video was rendered makes the video stale
+      if (storyId) {
+        await storyCompletionService.requestRerender(storyId, 'Shot image replaced');
+      }
     } catch (error) {
       logger.error(`Error handling image completion: ${error}`);
       throw error;
@@ -411,21 +566,24 @@ export class ResponseService {
     }
   }
 
-  // In ResponseService class
-  async handleCloudflareVideoReady(webhookData: any): Promise<void> {
+  /**
+   * Complete the story whose Stream video is ready. Returns false if the
+   * event was ignored (unknown video, cancelled or re-rendering story).
+   */
+  async handleCloudflareVideoReady(webhookData: any): Promise<boolean> {
     try {
       // Extract Cloudflare Stream UID
       const cloudflareId = webhookData.uid;
       if (!cloudflareId) {
         logger.error('No UID found in Cloudflare webhook');
-        return;
+        return false;
       }
       
       // Extract HLS URL
-      const hlsUrl = webhookData.playbook?.hls;
+      const hlsUrl = webhookData.playback?.hls ?? webhookData.playbook?.hls;
       if (!hlsUrl) {
         logger.error('No HLS URL found in Cloudflare webhook');
-        return;
+        return false;
       }
       
       // Find the story with this Cloudflare ID
@@ -435,20 +593,29 @@ export class ResponseService {
       
       if (!story) {
         logger.error(`No story found with Cloudflare ID: ${cloudflareId}`);
-        return;
+        return false;
+      }
+
+      if (story.status === 'cancelled') {
+        logger.info(`Story ${story.id} was cancelled, ignoring Cloudflare ready event`);
+        return false;
+      }
+
+      // A re-render has started since this upload; its own upload completes the story
+      if (story.status !== 'do_completed') {
+        logger.info(`Story ${story.id} is ${story.status}, ignoring Cloudflare ready event for ${cloudflareId}`);
+        return false;
       }
       
-      // Update the story with the HLS URL and mark as fully completed
-      const updatedStory = await prisma.story.update({
-        where: { id: story.id },
-        data: {
-          video_url: hlsUrl,
-          status: 'completed' // Final status - everything is done
-        }
+      // Store the HLS URL next to the rendition (video_url stays the main rendition's file) and mark as fully completed
+      await storyStatusService.transition(story.id, 'completed', { // Final status - everything is done
+        reason: 'Cloudflare Stream video ready',
+        data: { stream_url: hlsUrl }
       });
       
       logger.info(`Story ${story.id} updated with HLS URL: ${hlsUrl}`);
       logger.info(`Story ${story.id} is now fully completed!`);
+      return true;
       
     } catch (error) {
       logger.error(`Error handling Cloudflare video ready webhook: ${error}`);
@@ -1,10 +1,148 @@
 import type { Request, Response } from "express";
 import { StoryService } from "../services/StoryService.js";
+import { StoryStatusService, STORY_STATUSES } from "../services/StoryStatusService.js";
+import { StoryRetryService, RETRY_STAGES } from "../services/StoryRetryService.js";
+import { StoryMediaService } from "../services/StoryMediaService.js";
+import { CaptionService, CAPTION_FORMATS } from "../services/CaptionService.js";
+import { MotionService } from "../services/MotionService.js";
+import { HighlightService } from "../services/HighlightService.js";
+import { CoverService } from "../services/CoverService.js";
+import { AudiogramService } from "../services/AudiogramService.js";
+import { INTRO_PAD_SEC, RENDER_PROFILES } from "../../events/VideoService.js";
 import logger from "../../../utils/logger.js";
+import { HttpError } from "../../../utils/httpError.js";
+import type { StoryListFilters, StoryGenerationRequest, CaptionCueOptions, CaptionFormat } from "../types/index.js";
 import { PrismaClient } from "@prisma/client";
 const prisma = new PrismaClient();
 
 const storyService = new StoryService();
+const storyRetryService = new StoryRetryService();
+const storyMediaService = new StoryMediaService();
+const captionService = new CaptionService();
+const highlightService = new HighlightService();
+const coverService = new CoverService();
+const audiogramService = new AudiogramService();
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+const CAPTION_CONTENT_TYPES: Record<CaptionFormat, string> = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  ass: 'text/x-ssa'
+};
+
+const VALID_IMAGE_STYLES = ['realistic', 'comic', 'cartoon', 'drawing', 'watercolor', 'noir', 'sketch'];
+
+// Request body fields that make up a story's generation inputs
+const GENERATION_FIELDS = ['story', 'style', 'speakers', 'voices', 'tone', 'duration', 'imageStyle', 'video', 'reviewScript', 'public', 'captions', 'motion', 'renditions', 'highlights', 'audiogram'] as const;
+
+function validateGenerationInput(input: Record<string, any>): string | null {
+  const { story, style, speakers, voices, tone, duration, imageStyle, video, captions, motion, renditions, highlights, audiogram } = input;
+
+  // Basic validation
+  if (!story || !style || !speakers || !voices || !tone || !duration) {
+    return "Missing required fields: story, style, speakers, voices, tone, duration";
+  }
+
+  // Only validate imageStyle if video is enabled
+  if (video) {
+    if (!imageStyle) {
+      return "imageStyle is required when video is enabled";
+    }
+
+    if (!VALID_IMAGE_STYLES.includes(imageStyle)) {
+      return "Invalid imageStyle. Must be one of: " + VALID_IMAGE_STYLES.join(', ');
+    }
+  }
+
+  if (captions !== undefined && captions !== null) {
+    const captionError = CaptionService.validateOptions(captions);
+    if (captionError) {
+      return captionError;
+    }
+  }
+
+  if (renditions !== undefined && renditions !== null) {
+    const profiles = Object.keys(RENDER_PROFILES);
+    if (!Array.isArray(renditions) || renditions.length === 0 || renditions.some(name => !profiles.includes(name))) {
+      return "renditions must be a non-empty array of: " + profiles.join(', ');
+    }
+    if (new Set(renditions).size !== renditions.length) {
+      return "renditions must not repeat a profile";
+    }
+  }
+
+  if (highlights !== undefined && highlights !== null) {
+    const highlightError = HighlightService.validateCount(highlights);
+    if (highlightError) {
+      return highlightError;
+    }
+  }
+
+  if (motion !== undefined && motion !== null) {
+    const motionError = MotionService.validateOptions(motion);
+    if (motionError) {
+      return motionError;
+    }
+  }
+
+  if (audiogram !== undefined && audiogram !== null) {
+    if (typeof audiogram !== 'boolean') {
+      return "audiogram must be a boolean";
+    }
+    if (audiogram && video) {
+      return "audiogram is only available for audio-only stories (video: false)";
+    }
+  }
+
+  return null;
+}
+
+function toGenerationRequest(input: Record<string, any>): StoryGenerationRequest {
+  const request: StoryGenerationRequest = {
+    story: input.story,
+    style: input.style,
+    speakers: input.speakers,
+    voices: input.voices,
+    tone: input.tone,
+    duration: input.duration,
+    imageStyle: input.video ? input.imageStyle : null,
+    video: !!input.video,
+    reviewScript: !!input.reviewScript,
+    public: !!input.public
+  };
+
+  // An audiogram is rendered video too
+  const rendered = input.video || input.audiogram;
+
+  // Captions only apply to rendered video
+  if (rendered && input.captions) {
+    const { mode, maxWordsPerLine, font, fontSize, position } = input.captions;
+    request.captions = { mode, maxWordsPerLine, font, fontSize, position };
+  }
+
+  // So do shot motion and transitions
+  if (input.video && input.motion) {
+    const { kenBurns, shotTransition, sceneTransition, transitionDuration } = input.motion;
+    request.motion = { kenBurns, shotTransition, sceneTransition, transitionDuration };
+  }
+
+  if (rendered && input.renditions) {
+    request.renditions = [...input.renditions];
+  }
+
+  // Highlights are cut from the rendered video
+  if (input.video && input.highlights) {
+    request.highlights = input.highlights;
+  }
+
+  if (!input.video && input.audiogram) {
+    request.audiogram = true;
+  }
+
+  return request;
+}
 
 export class StoryController {
   async generateStory(req: Request, res: Response): Promise<void> {
@@ -15,65 +153,307 @@ export class StoryController {
         return;
       }
 
-      const { 
-        story, 
-        style, 
-        speakers, 
-        voices, 
-        tone, 
-        duration, 
-        imageStyle,
-        video = true // Default to true for backward compatibility
-      } = req.body;
+      const input = { ...req.body, video: req.body.video ?? true }; // Default to true for backward compatibility
 
-      // Basic validation
-      if (!story || !style || !speakers || !voices || !tone || !duration) {
-        res.status(400).json({ 
-          error: "Missing required fields: story, style, speakers, voices, tone, duration" 
-        });
+      const validationError = validateGenerationInput(input);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
         return;
       }
 
-      // Only validate imageStyle if video is enabled
-      if (video) {
-        if (!imageStyle) {
-          res.status(400).json({ 
-            error: "imageStyle is required when video is enabled" 
-          });
-          return;
-        }
+      const request = toGenerationRequest(input);
+      const storyId = await storyService.generateStory(userId, request);
 
-        const validImageStyles = ['realistic', 'comic', 'cartoon', 'drawing', 'watercolor', 'noir', 'sketch'];
-        if (!validImageStyles.includes(imageStyle)) {
-          res.status(400).json({ 
-            error: "Invalid imageStyle. Must be one of: " + validImageStyles.join(', ')
-          });
-          return;
+      res.status(202).json({
+        message: "Story created successfully",
+        storyId,
+        mode: request.video ? "video" : "audio-only"
+      });
+    } catch (error) {
+      logger.error(`Generate story error: ${error}`);
+      res.status(500).json({ error: "Failed to create story" });
+    }
+  }
+
+  async regenerateStory(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
+
+      const storyId = req.params.id;
+      if (!storyId) {
+        res.status(400).json({ error: "Story ID is required" });
+        return;
+      }
+
+      const previous = await storyService.getGenerationRequest(userId, storyId);
+      if (!previous) {
+        res.status(404).json({ error: "Story not found or access denied" });
+        return;
+      }
+
+      // Only generation inputs can be overridden; anything else in the body is ignored
+      const overrides: Record<string, any> = {};
+      for (const field of GENERATION_FIELDS) {
+        if (req.body?.[field] !== undefined) {
+          overrides[field] = req.body[field];
         }
       }
 
-      const storyId = await storyService.generateStory(userId, {
-        story,
-        style,
-        speakers,
-        voices,
-        tone,
-        duration,
-        imageStyle: video ? imageStyle : null,
-        video
-      });
+      const input = { ...previous, ...overrides };
+
+      const validationError = validateGenerationInput(input);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      const request = toGenerationRequest(input);
+      const newStoryId = await storyService.generateStory(userId, request, { sourceStoryId: storyId });
 
       res.status(202).json({
         message: "Story created successfully",
-        storyId,
-        mode: video ? "video" : "audio-only"
+        storyId: newStoryId,
+        sourceStoryId: storyId,
+        mode: request.video ? "video" : "audio-only"
       });
     } catch (error) {
-      logger.error(`Generate story error: ${error}`);
+      logger.error(`Regenerate story error: ${error}`);
       res.status(500).json({ error: "Failed to create story" });
     }
   }
 
+  async updateScript(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
+
+      const storyId = req.params.id;
+      if (!storyId) {
+        res.status(400).json({ error: "Story ID is required" });
+        return;
+      }
+
+      const { title, scenes } = req.body ?? {};
+      if (title === undefined && scenes === undefined) {
+        res.status(400).json({ error: "Nothing to update: provide title and/or scenes" });
+        return;
+      }
+
+      if (scenes !== undefined && (!Array.isArray(scenes) || scenes.some((scene: any) => typeof scene?.id !== 'string'))) {
+        res.status(400).json({ error: "scenes must be an array of objects with an id" });
+        return;
+      }
+
+      const script = await storyService.updateScript(userId, storyId, { title, scenes });
+      res.status(200).json({ storyId, script });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.status).json({ error: error.message, details: error.details });
+        return;
+      }
+      logger.error(`Update script error: ${error}`);
+      res.status(500).json({ error: "Failed to update script" });
+    }
+  }
+
+  async approveScript(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
+
+      const storyId = req.params.id;
+      if (!storyId) {
+        res.status(400).json({ error: "Story ID is required" });
+        return;
+      }
+
+      await storyService.approveScript(userId, storyId);
+
+      res.status(202).json({
+        message: "Script approved, media generation started",
+        storyId
+      });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.status).json({ error: error.message, details: error.details });
+        return;
+      }
+      logger.error(`Approve script error: ${error}`);
+      res.status(500).json({ error: "Failed to approve script" });
+    }
+  }
+
+  async cancelStory(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
+
+      const storyId = req.params.id;
+      if (!storyId) {
+        res.status(400).json({ error: "Story ID is required" });
+        return;
+      }
+
+      const cancelled = await storyService.cancelStory(userId, storyId);
+      if (!cancelled) {
+        res.status(404).json({ error: "Story not found or access denied" });
+        return;
+      }
+
+      res.status(200).json({
+        message: "Story cancelled",
+        storyId,
+        status: "cancelled"
+      });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.status).json({ error: error.message, details: error.details });
+        return;
+      }
+      logger.error(`Cancel story error: ${error}`);
+      res.status(500).json({ error: "Failed to cancel story" });
+    }
+  }
+
+  async retryStory(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
+
+      const storyId = req.params.id;
+      if (!storyId) {
+        res.status(400).json({ error: "Story ID is required" });
+        return;
+      }
+
+      const stage = req.body?.stage;
+      if (stage !== undefined && (typeof stage !== "string" || !StoryRetryService.isRetryStage(stage))) {
+        res.status(400).json({ error: `Invalid stage. Must be one of: ${RETRY_STAGES.join(', ')}` });
+        return;
+      }
+
+      const result = await storyRetryService.retryStory(userId, storyId, stage);
+      if (!result) {
+        res.status(404).json({ error: "Story not found or access denied" });
+        return;
+      }
+
+      res.status(202).json({
+        message: `Retrying ${result.stage}`,
+        storyId,
+        ...result
+      });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.status).json({ error: error.message, details: error.details });
+        return;
+      }
+      logger.error(`Retry story error: ${error}`);
+      res.status(500).json({ error: "Failed to retry story" });
+    }
+  }
+
+  async regenerateShot(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
+
+      const { id: storyId, sceneId } = req.params;
+      if (!storyId || !sceneId) {
+        res.status(400).json({ error: "Story ID and scene ID are required" });
+        return;
+      }
+
+      const shotNumber = Number(req.params.shotNumber);
+      if (!Number.isInteger(shotNumber) || shotNumber < 1) {
+        res.status(400).json({ error: "shotNumber must be a positive integer" });
+        return;
+      }
+
+      const imagePrompt = req.body?.image_prompt;
+      if (imagePrompt !== undefined && (typeof imagePrompt !== "string" || !imagePrompt.trim())) {
+        res.status(400).json({ error: "image_prompt must be a non-empty string" });
+        return;
+      }
+
+      await storyService.regenerateShot(userId, storyId, sceneId, shotNumber, imagePrompt?.trim());
+
+      res.status(202).json({
+        message: "Shot image regeneration started",
+        storyId,
+        sceneId,
+        shotNumber
+      });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.status).json({ error: error.message, details: error.details });
+        return;
+      }
+      logger.error(`Regenerate shot error: ${error}`);
+      res.status(500).json({ error: "Failed to regenerate shot" });
+    }
+  }
+
+  async replaceShotImage(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
+
+      const { id: storyId, sceneId } = req.params;
+      if (!storyId || !sceneId) {
+        res.status(400).json({ error: "Story ID and scene ID are required" });
+        return;
+      }
+
+      const shotNumber = Number(req.params.shotNumber);
+      if (!Number.isInteger(shotNumber) || shotNumber < 1) {
+        res.status(400).json({ error: "shotNumber must be a positive integer" });
+        return;
+      }
+
+      // uploadImage middleware guarantees the file is present
+      const imageUrl = await storyService.replaceShotImage(userId, storyId, sceneId, shotNumber, req.file!.buffer);
+
+      res.status(200).json({
+        message: "Shot image replaced",
+        storyId,
+        sceneId,
+        shotNumber,
+        image_url: imageUrl,
+        source: "user"
+      });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.status).json({ error: error.message, details: error.details });
+        return;
+      }
+      logger.error(`Replace shot image error: ${error}`);
+      res.status(500).json({ error: "Failed to replace shot image" });
+    }
+  }
+
   async getVoices(req: Request, res: Response): Promise<void> {
     try {
       const voices = await prisma.voice.findMany({
@@ -86,4 +466,335 @@ export class StoryController {
       res.status(500).json({ error: "Failed to fetch voices" });
     }
   }
+
+  async listStories(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
+
+      const { cursor, status, video, from, to, limit } = req.query;
+
+      const filters: StoryListFilters = { limit: DEFAULT_PAGE_SIZE };
+
+      if (limit !== undefined) {
+        const parsedLimit = Number(limit);
+        if (!Number.isInteger(parsedLimit) || parsedLimit < 1 || parsedLimit > MAX_PAGE_SIZE) {
+          res.status(400).json({ error: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}` });
+          return;
+        }
+        filters.limit = parsedLimit;
+      }
+
+      if (typeof cursor === 'string' && cursor) filters.cursor = cursor;
+      if (status !== undefined) {
+        if (typeof status !== 'string' || !StoryStatusService.isStoryStatus(status)) {
+          res.status(400).json({ error: "Invalid status. Must be one of: " + STORY_STATUSES.join(', ') });
+          return;
+        }
+        filters.status = status;
+      }
+
+      if (video !== undefined) {
+        if (video !== 'true' && video !== 'false') {
+          res.status(400).json({ error: "video must be 'true' or 'false'" });
+          return;
+        }
+        filters.video = video === 'true';
+      }
+
+      for (const [key, value] of [['from', from], ['to', to]] as const) {
+        if (value === undefined) continue;
+        const date = new Date(String(value));
+        if (isNaN(date.getTime())) {
+          res.status(400).json({ error: `Invalid ${key} date` });
+          return;
+        }
+        filters[key] = date;
+      }
+
+      const result = await storyService.listStories(userId, filters);
+      res.status(200).json(result);
+    } catch (error) {
+      logger.error(`List stories error: ${error}`);
+      res.status(500).json({ error: "Failed to fetch stories" });
+    }
+  }
+
+  async getStory(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
+
+      const storyId = req.params.id;
+      if (!storyId) {
+        res.status(400).json({ error: "Story ID is required" });
+        return;
+      }
+
+      const story = await storyService.getStoryDetail(userId, storyId);
+      if (!story) {
+        res.status(404).json({ error: "Story not found or access denied" });
+        return;
+      }
+
+      res.status(200).json(story);
+    } catch (error) {
+      logger.error(`Get story error: ${error}`);
+      res.status(500).json({ error: "Failed to fetch story" });
+    }
+  }
+
+  async getStoryMedia(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
+
+      const storyId = req.params.id;
+      if (!storyId) {
+        res.status(400).json({ error: "Story ID is required" });
+        return;
+      }
+
+      const media = await storyMediaService.getStoryMedia(userId, storyId);
+      if (!media) {
+        res.status(404).json({ error: "Story not found or access denied" });
+        return;
+      }
+
+      res.status(200).json(media);
+    } catch (error) {
+      logger.error(`Get story media error: ${error}`);
+      res.status(500).json({ error: "Failed to fetch story media" });
+    }
+  }
+
+  /**
+   * Use one of the story's shots as its cover; the cover is redrawn in the
+   * background. A body without sceneId and shotNumber goes back to picking
+   * the shot automatically.
+   */
+  async setCover(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
+
+      const storyId = req.params.id;
+      if (!storyId) {
+        res.status(400).json({ error: "Story ID is required" });
+        return;
+      }
+
+      const { sceneId, shotNumber } = req.body ?? {};
+      let shot: { sceneId: string; shotNumber: number } | null = null;
+      if (sceneId !== undefined || shotNumber !== undefined) {
+        if (typeof sceneId !== "string" || !sceneId) {
+          res.status(400).json({ error: "sceneId must be a non-empty string" });
+          return;
+        }
+        if (!Number.isInteger(shotNumber) || shotNumber < 1) {
+          res.status(400).json({ error: "shotNumber must be a positive integer" });
+          return;
+        }
+        shot = { sceneId, shotNumber };
+      }
+
+      const found = await coverService.setCoverShot(userId, storyId, shot);
+      if (!found) {
+        res.status(404).json({ error: "Story not found or access denied" });
+        return;
+      }
+
+      res.status(202).json({
+        message: "Cover is being redrawn",
+        storyId,
+        shot
+      });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.status).json({ error: error.message, details: error.details });
+        return;
+      }
+      logger.error(`Set cover error: ${error}`);
+      res.status(500).json({ error: "Failed to set cover" });
+    }
+  }
+
+  /**
+   * Download the story's subtitles as an SRT, WebVTT or ASS caption file.
+   * ?offset=video shifts cues by the intro the video plays before the voice.
+   */
+  async getCaptions(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
+
+      const storyId = req.params.id;
+      if (!storyId) {
+        res.status(400).json({ error: "Story ID is required" });
+        return;
+      }
+
+      const format = req.params.format as CaptionFormat;
+      if (!CAPTION_FORMATS.includes(format)) {
+        res.status(400).json({ error: `Invalid caption format. Must be one of: ${CAPTION_FORMATS.join(', ')}` });
+        return;
+      }
+
+      const { offset, maxCharsPerLine, maxCueDuration } = req.query;
+      const cueOptions: CaptionCueOptions = {};
+
+      if (offset !== undefined) {
+        const parsedOffset = offset === 'video' ? INTRO_PAD_SEC : Number(offset);
+        if (!Number.isFinite(parsedOffset) || parsedOffset < 0) {
+          res.status(400).json({ error: "Invalid offset. Must be 'video' or a non-negative number of seconds" });
+          return;
+        }
+        cueOptions.offsetSec = parsedOffset;
+      }
+
+      if (maxCharsPerLine !== undefined) {
+        const parsedChars = Number(maxCharsPerLine);
+        if (!Number.isInteger(parsedChars) || parsedChars < 10 || parsedChars > 100) {
+          res.status(400).json({ error: "Invalid maxCharsPerLine. Must be an integer between 10 and 100" });
+          return;
+        }
+        cueOptions.maxCharsPerLine = parsedChars;
+      }
+
+      if (maxCueDuration !== undefined) {
+        const parsedDuration = Number(maxCueDuration);
+        if (!Number.isFinite(parsedDuration) || parsedDuration < 1 || parsedDuration > 20) {
+          res.status(400).json({ error: "Invalid maxCueDuration. Must be between 1 and 20 seconds" });
+          return;
+        }
+        cueOptions.maxCueDurationSec = parsedDuration;
+      }
+
+      const captions = await captionService.getStoryCaptions(userId, storyId, format, cueOptions);
+      if (captions === null) {
+        res.status(404).json({ error: "Story not found or access denied" });
+        return;
+      }
+
+      res.attachment(`${storyId}.${format}`);
+      res.type(`${CAPTION_CONTENT_TYPES[format]}; charset=utf-8`);
+      res.status(200).send(captions);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.status).json({ error: error.message, details: error.details });
+        return;
+      }
+      logger.error(`Get captions error: ${error}`);
+      res.status(500).json({ error: "Failed to generate captions" });
+    }
+  }
+
+  async listHighlights(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
+
+      const storyId = req.params.id;
+      if (!storyId) {
+        res.status(400).json({ error: "Story ID is required" });
+        return;
+      }
+
+      const highlights = await highlightService.listHighlights(userId, storyId);
+      if (!highlights) {
+        res.status(404).json({ error: "Story not found or access denied" });
+        return;
+      }
+
+      res.status(200).json({ storyId, highlights });
+    } catch (error) {
+      logger.error(`List highlights error: ${error}`);
+      res.status(500).json({ error: "Failed to fetch highlights" });
+    }
+  }
+
+  /**
+   * Cut (or re-cut) highlight clips from a rendered story. Existing clips are
+   * replaced when the job runs.
+   */
+  async generateHighlights(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
+
+      const storyId = req.params.id;
+      if (!storyId) {
+        res.status(400).json({ error: "Story ID is required" });
+        return;
+      }
+
+      const count = req.body?.count ?? 3;
+      const countError = HighlightService.validateCount(count);
+      if (countError || count === 0) {
+        res.status(400).json({ error: countError ?? "count must be at least 1" });
+        return;
+      }
+
+      await highlightService.requestHighlights(userId, storyId, count);
+      res.status(202).json({ storyId, count, status: 'queued' });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.status).json({ error: error.message, details: error.details });
+        return;
+      }
+      logger.error(`Generate highlights error: ${error}`);
+      res.status(500).json({ error: "Failed to queue highlights" });
+    }
+  }
+
+  /**
+   * Queue (re)rendering of an audio-only story's audiogram. The videos replace
+   * the story's renditions; audiogram_status on the story tracks progress.
+   */
+  async generateAudiogram(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
+
+      const storyId = req.params.id;
+      if (!storyId) {
+        res.status(400).json({ error: "Story ID is required" });
+        return;
+      }
+
+      await audiogramService.requestAudiogram(userId, storyId);
+      res.status(202).json({ storyId, status: 'pending' });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.status).json({ error: error.message, details: error.details });
+        return;
+      }
+      logger.error(`Generate audiogram error: ${error}`);
+      res.status(500).json({ error: "Failed to queue audiogram" });
+    }
+  }
 }
\ No newline at end of file
@@ -1,14 +1,16 @@
 // SubtitleController.ts
 import type { Request, Response } from "express";
-import prisma from "../../../lib/prisma.js";
-import axios from "axios";
 import logger from "../../../utils/logger.js";
+import { HttpError } from "../../../utils/httpError.js";
+import { StreamCaptionService, SUPPORTED_CAPTION_LANGUAGES } from "../services/StreamCaptionService.js";
 
-const SUPPORTED_LANGUAGES = ['cs', 'nl', 'en', 'fr', 'de', 'it', 'ja', 'ko', 'pl', 'pt', 'ru', 'es'];
-const POLL_INTERVAL = 5000; // 5 seconds
-const MAX_POLL_ATTEMPTS = 60; // Max 5 minutes of polling
+const streamCaptionService = new StreamCaptionService();
 
 export class SubtitleController {
+  /**
+   * Start Cloudflare caption generation. Responds 202 with the caption job;
+   * a 'caption' WebSocket message is sent when it is ready or has failed.
+   */
   async generateCaptions(req: Request, res: Response): Promise<void> {
     try {
       const storyId = req.params.storyId;
@@ -28,163 +30,89 @@ export class SubtitleController {
       }
 
       // Validate language
-      if (!SUPPORTED_LANGUAGES.includes(language)) {
-        res.status(400).json({ 
-          error: `Invalid language. Supported: ${SUPPORTED_LANGUAGES.join(', ')}` 
+      if (!SUPPORTED_CAPTION_LANGUAGES.includes(language)) {
+        res.status(400).json({
+          error: `Invalid language. Supported: ${SUPPORTED_CAPTION_LANGUAGES.join(', ')}`
         });
         return;
       }
 
-      // Check if user owns this story and get cloudflare_id
-      const story = await prisma.story.findFirst({
-        where: {
-          id: storyId,
-          user_id: userId
-        },
-        select: {
-          cloudflare_id: true,
-          title: true
-        }
-      });
-
-      if (!story) {
-        res.status(404).json({ error: "Story not found or access denied" });
-        return;
-      }
+      const caption = await streamCaptionService.requestCaption(userId, storyId, language);
 
-      if (!story.cloudflare_id) {
-        res.status(400).json({ error: "Video not yet uploaded to Cloudflare Stream" });
-        return;
-      }
+      res.status(202).json({
+        jobId: caption.id,
+        storyId,
+        language: caption.language,
+        status: caption.status
+      });
 
-      // Initiate caption generation
-      const generateResult = await this.initiateCaption(story.cloudflare_id, language);
-      
-      // Check if caption already exists
-      if (!generateResult.success && generateResult.errors?.[0]?.code === 10005) {
-        const message = generateResult.messages?.[0]?.message;
-        if (message && message.includes("existing caption")) {
-          res.status(409).json({ 
-            error: "Caption already exists",
-            message: `Caption for language '${language}' already exists. Please delete existing caption first.`,
-            language: language
-          });
-          return;
-        }
-      }
-      
-      if (!generateResult.success) {
-        res.status(500).json({ 
-          error: "Failed to initiate caption generation",
-          details: generateResult.errors 
-        });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.status).json({ error: error.message, details: error.details });
         return;
       }
-
-      // Start polling for completion
-      const pollResult = await this.pollForCaption(story.cloudflare_id, language);
-      
-      if (pollResult.ready) {
-        res.status(200).json({ 
-          success: true,
-          message: "Captions generated successfully",
-          language: language,
-          storyId: storyId
-        });
-      } else {
-        res.status(500).json({ 
-          error: "Caption generation timed out or failed",
-          message: "Please try again later" 
-        });
-      }
-
-    } catch (error) {
       logger.error(`Caption generation error: ${error}`);
       res.status(500).json({ error: "Internal server error" });
     }
   }
 
-  private async initiateCaption(cloudflareId: string, language: string): Promise<any> {
+  async listCaptions(req: Request, res: Response): Promise<void> {
     try {
-      const accountId = process.env.CLOUDFLARE_ACCOUNT_ID;
-      const token = process.env.CLOUDFLARE_TOKEN;
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
 
-      if (!accountId || !token) {
-        throw new Error('Cloudflare credentials not configured');
+      const storyId = req.params.storyId;
+      if (!storyId) {
+        res.status(400).json({ error: "Story ID is required" });
+        return;
       }
 
-      const url = `https://api.cloudflare.com/client/v4/accounts/${accountId}/stream/${cloudflareId}/captions/${language}/generate`;
-
-      const response = await axios.post(
-        url,
-        {},
-        {
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json'
-          },
-          validateStatus: () => true // Accept any status code to handle errors
-        }
-      );
-
-      logger.info(`Caption generation response status: ${response.status}`);
-      
-      // Return the data regardless of success/failure for handling in main function
-      return response.data;
+      const captions = await streamCaptionService.listCaptions(userId, storyId);
+      if (!captions) {
+        res.status(404).json({ error: "Story not found or access denied" });
+        return;
+      }
 
+      res.status(200).json({ storyId, captions });
     } catch (error) {
-      logger.error(`Failed to initiate caption generation: ${error}`);
-      throw error;
+      logger.error(`List captions error: ${error}`);
+      res.status(500).json({ error: "Failed to fetch captions" });
     }
   }
 
-  private async pollForCaption(
-    cloudflareId: string, 
-    language: string
-  ): Promise<{ ready: boolean }> {
+  async deleteCaption(req: Request, res: Response): Promise<void> {
     try {
-      const accountId = process.env.CLOUDFLARE_ACCOUNT_ID;
-      const token = process.env.CLOUDFLARE_TOKEN;
-
-      if (!accountId || !token) {
-        throw new Error('Cloudflare credentials not configured');
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
       }
 
-      const url = `https://api.cloudflare.com/client/v4/accounts/${accountId}/stream/${cloudflareId}/captions`;
+      const { storyId, language } = req.params;
+      if (!storyId) {
+        res.status(400).json({ error: "Story ID is required" });
+        return;
+      }
 
-      for (let attempt = 0; attempt < MAX_POLL_ATTEMPTS; attempt++) {
-        const response = await axios.get(url, {
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json'
-          }
+      if (!language || !SUPPORTED_CAPTION_LANGUAGES.includes(language)) {
+        res.status(400).json({
+          error: `Invalid language. Supported: ${SUPPORTED_CAPTION_LANGUAGES.join(', ')}`
         });
-
-        if (response.data.success) {
-          const caption = response.data.result.find(
-            (cap: any) => cap.language === language
-          );
-
-          if (caption?.status === 'ready') {
-            logger.info(`Captions ready for ${cloudflareId} in ${language}`);
-            return { ready: true };
-          } else if (caption?.status === 'error') {
-            logger.error(`Caption generation failed for ${cloudflareId}`);
-            return { ready: false };
-          }
-        }
-
-        // Wait before next poll
-        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
-        logger.info(`Polling caption status: attempt ${attempt + 1}/${MAX_POLL_ATTEMPTS}`);
+        return;
       }
 
-      logger.warn(`Caption generation timed out after ${MAX_POLL_ATTEMPTS} attempts`);
-      return { ready: false };
-
+      await streamCaptionService.deleteCaption(userId, storyId, language);
+      res.status(204).send();
     } catch (error) {
-      logger.error(`Error polling for caption status: ${error}`);
-      return { ready: false };
+      if (error instanceof HttpError) {
+        res.status(error.status).json({ error: error.message, details: error.details });
+        return;
+      }
+      logger.error(`Delete caption error: ${error}`);
+      res.status(500).json({ error: "Failed to delete caption" });
     }
   }
-}
\ No newline at end of file
+}
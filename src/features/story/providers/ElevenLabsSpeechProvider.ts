@@ -0,0 +1,62 @@
+import axios from "axios";
+import type { InputTiming, SpeechInput, SpeechProvider, SpeechResult } from "./types.js";
+
+interface VoiceSegment {
+  dialogue_input_index: number;
+  start_time_seconds: number;
+  end_time_seconds: number;
+}
+
+/**
+ * ElevenLabs text-to-dialogue. The timestamped variant returns the audio along
+ * with the span of each voice segment, which gives the per-input timings.
+ */
+export class ElevenLabsSpeechProvider implements SpeechProvider {
+  async synthesize(inputs: SpeechInput[]): Promise<SpeechResult> {
+    const apiKey = process.env.ELEVENLABS_API_KEY;
+    if (!apiKey) {
+      throw new Error("ElevenLabs API key not configured");
+    }
+
+    const response = await axios.post(
+      "https://api.elevenlabs.io/v1/text-to-dialogue/with-timestamps",
+      {
+        inputs: inputs.map((input) => ({
+          text: input.text,
+          voice_id: input.voice_id,
+        })),
+      },
+      {
+        headers: {
+          "xi-api-key": apiKey,
+          "Content-Type": "application/json",
+        },
+      }
+    );
+
+    return {
+      audio: Buffer.from(response.data.audio_base64, "base64"),
+      timings: this.toInputTimings(response.data.voice_segments || []),
+    };
+  }
+
+  /**
+   * An input can be voiced as several segments; its timing spans all of them
+   */
+  private toInputTimings(segments: VoiceSegment[]): InputTiming[] {
+    const timings = new Map<number, InputTiming>();
+
+    for (const segment of segments) {
+      const index = segment.dialogue_input_index;
+      const timing = timings.get(index);
+      if (timing) {
+        timing.start = Math.min(timing.start, segment.start_time_seconds);
+        timing.end = Math.max(timing.end, segment.end_time_seconds);
+      } else {
+        timings.set(index, { index, start: segment.start_time_seconds, end: segment.end_time_seconds });
+      }
+    }
+
+    return Array.from(timings.values()).sort((a, b) => a.index - b.index);
+  }
+}
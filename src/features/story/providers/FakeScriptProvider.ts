@@ -0,0 +1,157 @@
+import crypto from "crypto";
+import logger from "../../../utils/logger.js";
+import { validateJsonSchema } from "../../../utils/jsonSchema.js";
+import type { StoryGenerationRequest } from "../types/index.js";
+import type { ScriptProvider, ScriptRequest, ScriptResponse } from "./types.js";
+
+const WORDS_PER_MINUTE = 160;
+const WORDS_PER_INPUT = 40;
+const MIN_SCENES = 3;
+const MAX_SCENES = 8;
+
+// Filler sentences; {topic} is replaced with the story prompt
+const SENTENCES = [
+  'Welcome back, today we are looking at {topic}.',
+  'It is a story that starts quietly and then keeps surprising everyone involved.',
+  'To understand it we first need a little context about the people and the place.',
+  'Nobody at the time could have predicted how things would turn out.',
+  'Here is the part that most accounts of {topic} tend to skip over.',
+  'Think about what that meant for the people living through it every single day.',
+  'The details matter, so let us slow down and walk through them one at a time.',
+  'That question is exactly where the story takes its next turn.',
+  'And that, in the end, is why {topic} is still worth talking about.'
+];
+
+/**
+ * Offline script provider for development and tests. Builds a script sized to
+ * the requested duration from filler dialogue, without calling a model. The
+ * same request always produces the same script, and it is returned already
+ * completed. Responses only live in memory, so they don't survive a restart.
+ */
+export class FakeScriptProvider implements ScriptProvider {
+  private responses: Map<string, ScriptResponse> = new Map();
+
+  async requestScript(request: ScriptRequest): Promise<ScriptResponse> {
+    const script = this.buildScript(request.params);
+
+    const errors = validateJsonSchema(request.schema, script);
+    if (errors.length > 0) {
+      throw new Error(`Fake script does not match schema: ${errors.join('; ')}`);
+    }
+
+    const response: ScriptResponse = {
+      id: `fake_resp_${crypto.randomUUID()}`,
+      status: 'completed',
+      script
+    };
+    this.responses.set(response.id, response);
+
+    logger.info(`Fake script ${response.id}: ${script.scenes.length} scenes, ${script.metadata.totalWords} words`);
+    return response;
+  }
+
+  async getScript(responseId: string): Promise<ScriptResponse> {
+    return this.responses.get(responseId) ?? {
+      id: responseId,
+      status: 'failed',
+      error: 'Fake script response not found (it only lives in memory)'
+    };
+  }
+
+  async cancelScript(responseId: string): Promise<void> {
+    this.responses.delete(responseId);
+  }
+
+  private buildScript(params: StoryGenerationRequest): Record<string, any> {
+    const topic = params.story.trim().replace(/\s+/g, ' ').slice(0, 80).replace(/[.!?]+$/, '');
+    const minutes = parseFloat(params.duration) || 3;
+    const totalWordsTarget = Math.round(minutes * WORDS_PER_MINUTE);
+    const sceneCount = Math.min(MAX_SCENES, Math.max(MIN_SCENES, Math.round(minutes)));
+    const voices = params.speakers === 'dual' && params.voices.length >= 2
+      ? params.voices.slice(0, 2)
+      : params.voices.slice(0, 1);
+    const imageStyle = params.imageStyle || 'realistic';
+
+    let sentenceIndex = 0;
+    let startTime = 0;
+    let totalWords = 0;
+    const scenes: Record<string, any>[] = [];
+    const settings: Record<string, any>[] = [];
+
+    for (let sceneIndex = 0; sceneIndex < sceneCount; sceneIndex++) {
+      const sceneWordsTarget = Math.round(totalWordsTarget / sceneCount);
+      const inputs: Array<{ text: string; voice_id: string }> = [];
+      let sceneWords = 0;
+
+      while (sceneWords < sceneWordsTarget) {
+        const sentences: string[] = [];
+        let inputWords = 0;
+        while (inputWords < Math.min(WORDS_PER_INPUT, sceneWordsTarget - sceneWords)) {
+          const sentence = SENTENCES[sentenceIndex++ % SENTENCES.length]!.replace('{topic}', topic);
+          sentences.push(sentence);
+          inputWords += this.countWords(sentence);
+        }
+        inputs.push({ text: sentences.join(' '), voice_id: voices[inputs.length % voices.length]! });
+        sceneWords += inputWords;
+      }
+
+      const duration = Math.round((sceneWords / WORDS_PER_MINUTE) * 60 * 10) / 10;
+      const label = sceneIndex === 0 ? 'Intro' : sceneIndex === sceneCount - 1 ? 'Outro' : `Part ${sceneIndex}`;
+      const scene: Record<string, any> = {
+        id: `scene_${sceneIndex + 1}`,
+        startTime,
+        duration,
+        wordCount: sceneWords,
+        inputs
+      };
+
+      if (params.video) {
+        const setting = {
+          uuid: `setting_${this.hash(`${topic}:${sceneIndex}`)}`,
+          name: `${label}: ${topic}`,
+          description: `A ${imageStyle} scene illustrating ${topic}, ${label.toLowerCase()}.`,
+          appearances: 1
+        };
+        settings.push(setting);
+        scene.image_prompt = `${imageStyle} style, cinematic composition: ${setting.description}`;
+        scene.characters = [];
+        scene.setting = { name: setting.name, uuid: setting.uuid };
+      }
+
+      scenes.push(scene);
+      startTime = Math.round((startTime + duration) * 10) / 10;
+      totalWords += sceneWords;
+    }
+
+    const metadata: Record<string, any> = {
+      totalScenes: scenes.length,
+      averageSceneDuration: Math.round((startTime / scenes.length) * 10) / 10,
+      totalWords,
+      estimationMethod: `${WORDS_PER_MINUTE} words per minute`,
+      speechStyle: params.style,
+      musicPrompt: `Ambient ${params.tone} background music for a ${params.style} podcast`,
+      themes: [params.tone, params.style]
+    };
+
+    if (params.video) {
+      metadata.imageStyle = imageStyle;
+      metadata.anchors = { characters: [], settings };
+    }
+
+    return {
+      title: topic.charAt(0).toUpperCase() + topic.slice(1),
+      totalDuration: startTime,
+      estimatedWordsPerMinute: WORDS_PER_MINUTE,
+      scenes,
+      metadata
+    };
+  }
+
+  private countWords(text: string): number {
+    return text.split(/\s+/).filter(Boolean).length;
+  }
+
+  private hash(value: string): string {
+    return crypto.createHash('md5').update(value).digest('hex').substring(0, 8);
+  }
+}
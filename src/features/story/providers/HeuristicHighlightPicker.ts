@@ -0,0 +1,91 @@
+import type { HighlightPicker, HighlightRequest, HighlightSpan, TimedSentence } from "./types.js";
+
+// How close to a scene start a span must begin to count as opening on it
+const SCENE_START_TOLERANCE_SEC = 1;
+
+interface Candidate {
+  first: number; // Sentence indexes, inclusive
+  last: number;
+  score: number;
+}
+
+/**
+ * Picks highlights without calling a model. Every run of whole sentences that
+ * fits the duration range is a candidate; candidates that open a scene, carry
+ * questions or exclamations and are dense with speech score higher. The best
+ * non-overlapping candidates win. HighlightService uses it when the model call
+ * fails or its picks are unusable, and LLM_PROVIDER=fake uses it for every story.
+ */
+export class HeuristicHighlightPicker implements HighlightPicker {
+  async pickHighlights(request: HighlightRequest): Promise<HighlightSpan[]> {
+    const { sentences } = request;
+    if (sentences.length === 0) {
+      return [];
+    }
+
+    const storyDuration = sentences[sentences.length - 1]!.end - sentences[0]!.start;
+    // A story shorter than a clip becomes a single clip of as much as fits
+    if (storyDuration < request.minDurationSec) {
+      const last = this.lastFitting(sentences, 0, request.maxDurationSec);
+      return [this.toSpan(request, sentences[0]!, sentences[last]!, 0, 1)];
+    }
+
+    const candidates: Candidate[] = [];
+    for (let first = 0; first < sentences.length; first++) {
+      const last = this.lastFitting(sentences, first, request.maxDurationSec);
+      if (sentences[last]!.end - sentences[first]!.start < request.minDurationSec) {
+        continue;
+      }
+      candidates.push({ first, last, score: this.score(request, first, last) });
+    }
+
+    // Best first; earlier spans win ties so results are stable
+    candidates.sort((a, b) => b.score - a.score || a.first - b.first);
+
+    const picked: Candidate[] = [];
+    for (const candidate of candidates) {
+      if (picked.length >= request.count) break;
+      if (picked.every(other => candidate.last < other.first || candidate.first > other.last)) {
+        picked.push(candidate);
+      }
+    }
+
+    picked.sort((a, b) => a.first - b.first);
+    return picked.map((candidate, index) =>
+      this.toSpan(request, sentences[candidate.first]!, sentences[candidate.last]!, index, picked.length)
+    );
+  }
+
+  /**
+   * Index of the last sentence that keeps a span starting at `first` within maxDurationSec
+   */
+  private lastFitting(sentences: TimedSentence[], first: number, maxDurationSec: number): number {
+    let last = first;
+    while (last + 1 < sentences.length && sentences[last + 1]!.end - sentences[first]!.start <= maxDurationSec) {
+      last++;
+    }
+    return last;
+  }
+
+  private score(request: HighlightRequest, first: number, last: number): number {
+    const span = request.sentences.slice(first, last + 1);
+    const start = span[0]!.start;
+    const duration = span[span.length - 1]!.end - start;
+    const words = span.reduce((sum, sentence) => sum + sentence.text.split(/\s+/).filter(Boolean).length, 0);
+
+    let score = words / duration; // Speech density, about 2.5 words/s for normal pace
+    if (request.sceneStarts.some(sceneStart => Math.abs(sceneStart - start) <= SCENE_START_TOLERANCE_SEC)) {
+      score += 2;
+    }
+    score += span.filter(sentence => /[?!]["'”’)\]]*$/.test(sentence.text)).length * 0.5;
+    return score;
+  }
+
+  private toSpan(request: HighlightRequest, first: TimedSentence, last: TimedSentence, index: number, total: number): HighlightSpan {
+    return {
+      start: first.start,
+      end: last.end,
+      title: total > 1 ? `${request.title} (${index + 1}/${total})` : request.title
+    };
+  }
+}
@@ -0,0 +1,133 @@
+import logger from "../../../utils/logger.js";
+import { runResponse, outputText } from "./openaiResponses.js";
+import type { OpenAIResponseData } from "../types/index.js";
+import type { HighlightPicker, HighlightRequest, HighlightSpan } from "./types.js";
+
+const MAX_TITLE_LENGTH = 80;
+
+/**
+ * Highlight picking with a small OpenAI model. The model sees the story as
+ * numbered, timed sentences and answers with sentence ranges, which are
+ * checked against the duration range and for overlaps. Throws if the response
+ * doesn't complete in time or no usable span comes back; callers decide
+ * whether to fall back.
+ */
+export class OpenAIHighlightPicker implements HighlightPicker {
+  async pickHighlights(request: HighlightRequest): Promise<HighlightSpan[]> {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error('OpenAI API key not configured');
+    }
+
+    logger.info(`Picking ${request.count} highlights from ${request.sentences.length} sentences`);
+
+    const numberedSentences = request.sentences.map(sentence =>
+      `${sentence.index}. [${sentence.start.toFixed(1)}-${sentence.end.toFixed(1)}s] ${sentence.text}`
+    ).join('\n');
+    const sceneStarts = request.sceneStarts.map(start => start.toFixed(1)).join(', ');
+
+    const responseData = await runResponse(
+      {
+        model: "gpt-5-nano",
+        instructions:
+          `You cut short-form teaser clips (Shorts/Reels) from a podcast episode titled "${request.title}".\n` +
+          `Pick up to ${request.count} highlights. Each highlight is a range of consecutive sentences, given by the numbers of its first and last sentence.\n\n` +
+          `RULES:\n` +
+          `- Each highlight must last between ${request.minDurationSec} and ${request.maxDurationSec} seconds (end of last sentence minus start of first)\n` +
+          `- Highlights must not overlap\n` +
+          `- Prefer self-contained moments: a hook, a surprising fact, a turn in the story, a strong question\n` +
+          `- Avoid starting mid-thought; starting at a scene start often works well\n` +
+          `- Give each highlight a short, punchy title for its title card (max ${MAX_TITLE_LENGTH} characters, no hashtags)\n\n` +
+          `Return JSON with a "highlights" array of objects { firstSentence, lastSentence, title }.`,
+        input: `Scene starts (seconds): ${sceneStarts}\n\nSentences (numbered, with times):\n${numberedSentences}`,
+        text: {
+          format: {
+            type: "json_schema",
+            name: "highlights",
+            schema: {
+              type: "object",
+              properties: {
+                highlights: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                    properties: {
+                      firstSentence: { type: "number" },
+                      lastSentence: { type: "number" },
+                      title: { type: "string" }
+                    },
+                    required: ["firstSentence", "lastSentence", "title"],
+                    additionalProperties: false
+                  },
+                  minItems: 1,
+                  maxItems: request.count
+                }
+              },
+              required: ["highlights"],
+              additionalProperties: false
+            },
+            strict: true
+          }
+        }
+      },
+      apiKey,
+      'Highlight'
+    );
+
+    const spans = this.extractSpans(responseData, request);
+
+    logger.info(`Picked ${spans.length} highlights: ${spans.map(span => `${span.start.toFixed(1)}-${span.end.toFixed(1)}s`).join(', ')}`);
+    return spans;
+  }
+
+  /**
+   * Turn sentence ranges into spans, dropping ranges that are out of bounds,
+   * outside the duration range or overlapping an earlier pick
+   */
+  private extractSpans(responseData: OpenAIResponseData, request: HighlightRequest): HighlightSpan[] {
+    const text = outputText(responseData);
+    if (!text) {
+      throw new Error('Could not extract highlights from OpenAI response');
+    }
+
+    const parsed = JSON.parse(text);
+    if (!Array.isArray(parsed?.highlights)) {
+      throw new Error('OpenAI response has no highlights array');
+    }
+
+    const byIndex = new Map(request.sentences.map(sentence => [sentence.index, sentence]));
+    const spans: HighlightSpan[] = [];
+
+    for (const highlight of parsed.highlights.slice(0, request.count)) {
+      const first = byIndex.get(Number(highlight?.firstSentence));
+      const last = byIndex.get(Number(highlight?.lastSentence));
+      if (!first || !last || last.index < first.index) {
+        logger.warn(`Skipping highlight with invalid sentence range: ${JSON.stringify(highlight)}`);
+        continue;
+      }
+
+      // Allow a little slack, models count seconds loosely
+      const duration = last.end - first.start;
+      if (duration < request.minDurationSec * 0.8 || duration > request.maxDurationSec * 1.2) {
+        logger.warn(`Skipping ${duration.toFixed(1)}s highlight, outside ${request.minDurationSec}-${request.maxDurationSec}s`);
+        continue;
+      }
+
+      if (spans.some(span => first.start < span.end && last.end > span.start)) {
+        logger.warn(`Skipping highlight overlapping an earlier one`);
+        continue;
+      }
+
+      const title = typeof highlight.title === 'string' && highlight.title.trim()
+        ? highlight.title.trim().slice(0, MAX_TITLE_LENGTH)
+        : request.title;
+      spans.push({ start: first.start, end: last.end, title });
+    }
+
+    if (spans.length === 0) {
+      throw new Error('OpenAI returned no usable highlights');
+    }
+
+    return spans.sort((a, b) => a.start - b.start);
+  }
+}
@@ -0,0 +1,88 @@
+import axios from "axios";
+import logger from "../../../utils/logger.js";
+import type { OpenAIResponse, OpenAIResponseData } from "../types/index.js";
+import { RESPONSES_URL } from "./openaiResponses.js";
+import type { ScriptProvider, ScriptRequest, ScriptResponse, ScriptStatus } from "./types.js";
+
+/**
+ * Scripts from the OpenAI Responses API, run as background responses that
+ * complete through the OpenAI webhook
+ */
+export class OpenAIScriptProvider implements ScriptProvider {
+  async requestScript(request: ScriptRequest): Promise<ScriptResponse> {
+    logger.info(`Calling OpenAI API for ${request.params.video ? 'video' : 'audio-only'} script generation...`);
+
+    const response = await axios.post(
+      RESPONSES_URL,
+      {
+        model: "gpt-5-2025-08-07",
+        input: [
+          {
+            role: "system",
+            content: request.systemPrompt
+          },
+          {
+            role: "user",
+            content: request.userPrompt
+          }
+        ],
+        text: {
+          format: {
+            type: "json_schema",
+            name: "podcast_script",
+            schema: request.schema,
+            strict: true
+          }
+        },
+        background: true,
+        tools: [
+          { type: "web_search_preview" }
+        ]
+      },
+      { headers: this.headers() }
+    );
+
+    const openaiResponse: OpenAIResponse = response.data;
+    return { id: openaiResponse.id, status: openaiResponse.status as ScriptStatus };
+  }
+
+  async getScript(responseId: string): Promise<ScriptResponse> {
+    const response = await axios.get(`${RESPONSES_URL}/${responseId}`, { headers: this.headers() });
+    const responseData: OpenAIResponseData = response.data;
+    const status = responseData.status as ScriptStatus;
+
+    if (status !== 'completed') {
+      const { error } = responseData;
+      return { id: responseId, status, ...(error ? { error: error.message || JSON.stringify(error) } : {}) };
+    }
+
+    // Extract the script from the response
+    const messageOutput = responseData.output?.find(output => output.type === 'message');
+    if (!messageOutput?.content) {
+      throw new Error('No message content found in response');
+    }
+
+    const textContent = messageOutput.content.find(content => content.type === 'output_text');
+    if (!textContent?.text) {
+      throw new Error('No text content found in response');
+    }
+
+    return { id: responseId, status, script: JSON.parse(textContent.text) };
+  }
+
+  async cancelScript(responseId: string): Promise<void> {
+    await axios.post(`${RESPONSES_URL}/${responseId}/cancel`, {}, { headers: this.headers() });
+    logger.info(`Cancelled OpenAI response: ${responseId}`);
+  }
+
+  private headers(): Record<string, string> {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error('OpenAI API key is not configured');
+    }
+    return {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json'
+    };
+  }
+}
@@ -0,0 +1,144 @@
+import logger from "../../../utils/logger.js";
+import { runResponse, outputText } from "./openaiResponses.js";
+import type { OpenAIResponseData } from "../types/index.js";
+import type { PlannedShot, ShotPlanner, ShotPlanRequest } from "./types.js";
+
+
+/**
+ * Shot planning with a small OpenAI model, aligned to the scene's dialogue and
+ * locked to its setting and era. Throws if the response doesn't complete in
+ * time or its shots are malformed; callers decide whether to retry.
+ */
+export class OpenAIShotPlanner implements ShotPlanner {
+  async planShots(request: ShotPlanRequest): Promise<PlannedShot[]> {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error('OpenAI API key not configured');
+    }
+
+    logger.info(`Generating ${request.shotsNeeded} individual cinematic shots for scene (10s duration each)`);
+
+    // Build scene context (setting, characters, temporal anchor) to lock era and place
+    const settingName = request.context?.setting?.name?.trim();
+    const settingDesc = request.context?.setting?.description?.trim();
+    const characterNames = Array.isArray(request.context?.characters)
+      ? (request.context!.characters || []).map((c: any) => c?.name).filter(Boolean)
+      : [];
+
+    // Try to derive a temporal anchor from dialogue (e.g., "March 15, 44 BCE")
+    const allDialogueText = request.dialogue.map((d: any) => d?.text || "").join(" \n ");
+    const dateWithEraMatch = allDialogueText.match(/\b([A-Z][a-z]+\s+\d{1,2},\s*\d{1,4}\s*(BCE|BC|CE|AD))\b/i);
+    const bareEraMatch = allDialogueText.match(/\b(\d{1,4})\s*(BCE|BC|CE|AD)\b/i);
+    const temporalAnchor = (dateWithEraMatch && dateWithEraMatch[1]) || (bareEraMatch && bareEraMatch[0]) || null;
+
+    const contextPreamble = [
+      `Setting: ${settingName || 'Unknown'}` + (settingDesc ? ` — ${settingDesc}` : ''),
+      `Characters in scene: ${characterNames.length ? characterNames.join(', ') : '—'}`,
+      `Era/Date: ${temporalAnchor || '—'}`
+    ].join('\n');
+
+    // Build dialogue context for the AI
+    const dialogueContext = request.dialogue.map((input, index) =>
+      `${index + 1}. "${input.text}" (${input.text.length} characters)`
+    ).join('\n');
+
+    const responseData = await runResponse(
+      {
+        model: "gpt-5-nano",
+        instructions:
+          `Scene total duration: ${request.sceneDuration} seconds.\n` +
+          `Shot durations (in order): [${request.targetDurations?.join(', ') || ''}]\n\n` +
+          `Create ${request.shotsNeeded} SEPARATE cinematic shots for this scene. Each shot is an individual, standalone image that will become a 10-second video.\n\n` +
+          `CRITICAL IMAGE COMPOSITION RULES:\n` +
+          `- Each shot must be a SINGLE, unified cinematic frame\n` +
+          `- NO text, titles, captions, or written words visible in the image\n` +
+          `- NO split screens, panels, montages, or multiple views in one image\n` +
+          `- NO "showing multiple angles" or "various perspectives" in one shot\n` +
+          `- Each prompt describes ONE specific camera angle/composition only\n` +
+          `- Think like a film director: each shot is one camera position filming one moment\n` +
+          `- Focus on visual storytelling through composition, lighting, and atmosphere only\n\n` +
+          `- Era & Place Lock: All shots must be faithful to the historical context. Do NOT include modern elements.\n` +
+          `- Dialogue Alignment: Each shot supports specific dialogue beats (reference line numbers)\n` +
+          `- Visual Variety: Use different camera angles (wide, medium, close-up) across shots\n` +
+          `- Durations: Each shot duration must match the provided array exactly\n` +
+          `- 10-Second Focus: Create prompts for sustained visual interest over 10 seconds\n` +
+          `- Prompt Prefix: Begin each with [Setting: <name> | Era: <value>]\n\n` +
+          `EXAMPLE GOOD PROMPTS:\n` +
+          `"Wide establishing shot of Roman forum at dawn with marble columns"\n` +
+          `"Medium shot of speaker gesturing from lectern, marble architecture behind"\n` +
+          `"Close-up of listener's thoughtful expression, soft natural lighting"\n\n` +
+          `EXAMPLE BAD PROMPTS (AVOID):\n` +
+          `"Split screen showing both speaker and audience reaction"\n` +
+          `"Montage of forum from multiple angles"\n` +
+          `"Various shots of the crowd and speaker together"\n\n` +
+          `Return as JSON with "shots" array of objects { shot, duration, prompt }.`,
+        input: `Scene Style: ${request.sceneDescription}\n\nContext:\n${contextPreamble}\n\nDialogue (numbered):\n${dialogueContext}`,
+        text: {
+          format: {
+            type: "json_schema",
+            name: "shot_prompts",
+            schema: {
+              type: "object",
+              properties: {
+                shots: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                    properties: {
+                      shot: { type: "number" },
+                      duration: { type: "number" },
+                      prompt: { type: "string" }
+                    },
+                    required: ["shot", "duration", "prompt"],
+                    additionalProperties: false
+                  },
+                  minItems: request.shotsNeeded,
+                  maxItems: request.shotsNeeded
+                }
+              },
+              required: ["shots"],
+              additionalProperties: false
+            },
+            strict: true
+          }
+        }
+      },
+      apiKey,
+      'Shot planning'
+    );
+
+    const shots = this.extractShots(responseData, request);
+
+    logger.info(`Successfully generated ${shots.length} individual cinematic shot prompts`);
+    return shots;
+  }
+
+  /**
+   * Parse and check the planned shots. Durations are taken from the request
+   * when it has them, since the renderer relies on them adding up.
+   */
+  private extractShots(responseData: OpenAIResponseData, request: ShotPlanRequest): PlannedShot[] {
+    const text = outputText(responseData);
+    if (!text) {
+      throw new Error('Could not extract shot prompts from OpenAI response');
+    }
+
+    const parsed = JSON.parse(text);
+    if (!Array.isArray(parsed?.shots) || parsed.shots.length < request.shotsNeeded) {
+      throw new Error(`Expected ${request.shotsNeeded} shots, got ${Array.isArray(parsed?.shots) ? parsed.shots.length : 'none'}`);
+    }
+
+    return parsed.shots.slice(0, request.shotsNeeded).map((shot: any, index: number) => {
+      if (typeof shot?.prompt !== 'string' || !shot.prompt.trim()) {
+        throw new Error(`Shot ${index + 1} has no prompt`);
+      }
+
+      const duration = request.targetDurations?.[index] ?? Number(shot.duration);
+      if (!Number.isFinite(duration) || duration <= 0) {
+        throw new Error(`Shot ${index + 1} has an invalid duration`);
+      }
+
+      return { shot: index + 1, duration, prompt: shot.prompt.trim() };
+    });
+  }
+}
@@ -0,0 +1,78 @@
+import crypto from "crypto";
+import ffmpeg from "fluent-ffmpeg";
+import fs from "fs";
+import path from "path";
+import type { InputTiming, SpeechInput, SpeechProvider, SpeechResult } from "./types.js";
+
+const WORDS_PER_MINUTE = 160;
+const MIN_INPUT_SEC = 0.6;
+const GAP_SEC = 0.4; // Pause between inputs
+const SAMPLE_RATE = 44100;
+
+/**
+ * Offline placeholder voice: each input becomes a quiet tone lasting as long
+ * as its words would take to say at 160 wpm, with a short pause between
+ * inputs. Each voice gets its own pitch so speaker changes are audible.
+ */
+export class SyntheticSpeechProvider implements SpeechProvider {
+  async synthesize(inputs: SpeechInput[]): Promise<SpeechResult> {
+    const timings: InputTiming[] = [];
+    const sources: string[] = [];
+    let cursor = 0;
+
+    inputs.forEach((input, index) => {
+      if (index > 0) {
+        sources.push(`aevalsrc=0:s=${SAMPLE_RATE}:d=${GAP_SEC}`);
+        cursor += GAP_SEC;
+      }
+
+      const duration = this.inputDuration(input.text);
+      sources.push(`aevalsrc=0.2*sin(2*PI*${this.voicePitch(input.voice_id)}*t):s=${SAMPLE_RATE}:d=${duration}`);
+      timings.push({ index, start: this.round(cursor), end: this.round(cursor + duration) });
+      cursor += duration;
+    });
+
+    const tempRoot = path.join(process.cwd(), "temp");
+    await fs.promises.mkdir(tempRoot, { recursive: true });
+    const outputPath = path.join(tempRoot, `synthetic_speech_${crypto.randomUUID()}.mp3`);
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const command = ffmpeg();
+        for (const source of sources) {
+          command.input(source).inputFormat("lavfi");
+        }
+
+        command
+          .complexFilter([
+            `${sources.map((_, i) => `[${i}:a]`).join("")}concat=n=${sources.length}:v=0:a=1[speech]`
+          ])
+          .outputOptions(["-map [speech]", "-c:a libmp3lame", "-b:a 128k"])
+          .on("end", () => resolve())
+          .on("error", (err) => reject(err))
+          .save(outputPath);
+      });
+
+      return { audio: await fs.promises.readFile(outputPath), timings };
+    } finally {
+      await fs.promises.rm(outputPath, { force: true });
+    }
+  }
+
+  private inputDuration(text: string): number {
+    const words = text.split(/\s+/).filter(Boolean).length;
+    return this.round(Math.max(MIN_INPUT_SEC, (words / WORDS_PER_MINUTE) * 60));
+  }
+
+  /**
+   * A stable pitch between 140 and 340 Hz for each voice
+   */
+  private voicePitch(voiceId: string): number {
+    const hash = crypto.createHash("md5").update(voiceId).digest();
+    return 140 + (hash.readUInt16BE(0) % 200);
+  }
+
+  private round(seconds: number): number {
+    return Math.round(seconds * 1000) / 1000;
+  }
+}
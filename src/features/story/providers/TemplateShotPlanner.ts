@@ -0,0 +1,44 @@
+import type { PlannedShot, ShotPlanner, ShotPlanRequest } from "./types.js";
+
+// Camera set-ups cycled through so consecutive shots don't repeat an angle
+const CAMERA_ANGLES = [
+  'Wide establishing shot',
+  'Medium shot',
+  'Close-up',
+  'Low-angle shot',
+  'Over-the-shoulder shot',
+  'Detail shot'
+];
+
+const DEFAULT_SHOT_DURATION = 10;
+
+/**
+ * Builds shot prompts from the scene's image prompt, setting and characters
+ * without calling a model, cycling camera angles so consecutive shots differ.
+ * The same scene always gets the same shots. This is the shot planner with
+ * LLM_PROVIDER=fake, and SpeechService falls back to it when the model's
+ * planning keeps failing, so a scene is never left without shots.
+ */
+export class TemplateShotPlanner implements ShotPlanner {
+  async planShots(request: ShotPlanRequest): Promise<PlannedShot[]> {
+    const settingName = request.context?.setting?.name?.trim();
+    const characterNames = (request.context?.characters || [])
+      .map(character => character?.name?.trim())
+      .filter((name): name is string => !!name);
+    const description = (request.sceneDescription || '').trim();
+
+    return Array.from({ length: request.shotsNeeded }, (_, index) => {
+      const angle = CAMERA_ANGLES[index % CAMERA_ANGLES.length]!;
+      // Wide shots show the place; the others alternate between the characters present
+      const subject = index === 0 || characterNames.length === 0
+        ? settingName || 'the scene'
+        : characterNames[(index - 1) % characterNames.length]!;
+
+      return {
+        shot: index + 1,
+        duration: request.targetDurations?.[index] ?? DEFAULT_SHOT_DURATION,
+        prompt: `[Setting: ${settingName || 'Unknown'} | Era: —] ${angle} of ${subject}. ${description}`.trim()
+      };
+    });
+  }
+}
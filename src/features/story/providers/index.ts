@@ -0,0 +1,32 @@
+import { OpenAIScriptProvider } from "./OpenAIScriptProvider.js";
+import { OpenAIShotPlanner } from "./OpenAIShotPlanner.js";
+import { FakeScriptProvider } from "./FakeScriptProvider.js";
+import { TemplateShotPlanner } from "./TemplateShotPlanner.js";
+import { ElevenLabsSpeechProvider } from "./ElevenLabsSpeechProvider.js";
+import { SyntheticSpeechProvider } from "./SyntheticSpeechProvider.js";
+import { OpenAIHighlightPicker } from "./OpenAIHighlightPicker.js";
+import { HeuristicHighlightPicker } from "./HeuristicHighlightPicker.js";
+import type { HighlightPicker, ScriptProvider, ShotPlanner, SpeechProvider } from "./types.js";
+
+export type {
+  ScriptProvider, ScriptRequest, ScriptResponse, ScriptStatus,
+  ShotPlanner, ShotPlanRequest, PlannedShot,
+  SpeechProvider, SpeechInput, SpeechResult, InputTiming,
+  HighlightPicker, HighlightRequest, HighlightSpan, TimedSentence
+} from "./types.js";
+export {
+  OpenAIScriptProvider, OpenAIShotPlanner, FakeScriptProvider, TemplateShotPlanner,
+  ElevenLabsSpeechProvider, SyntheticSpeechProvider,
+  OpenAIHighlightPicker, HeuristicHighlightPicker
+};
+
+// LLM_PROVIDER=fake writes scripts and shot plans locally, without network access
+const useFake = process.env.LLM_PROVIDER === "fake";
+
+export const scriptProvider: ScriptProvider = useFake ? new FakeScriptProvider() : new OpenAIScriptProvider();
+export const shotPlanner: ShotPlanner = useFake ? new TemplateShotPlanner() : new OpenAIShotPlanner();
+export const highlightPicker: HighlightPicker = useFake ? new HeuristicHighlightPicker() : new OpenAIHighlightPicker();
+
+// SPEECH_PROVIDER=synthetic voices scenes with timed placeholder tones instead of ElevenLabs
+export const speechProvider: SpeechProvider =
+  process.env.SPEECH_PROVIDER === "synthetic" ? new SyntheticSpeechProvider() : new ElevenLabsSpeechProvider();
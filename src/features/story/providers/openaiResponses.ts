@@ -0,0 +1,62 @@
+import axios from "axios";
+import type { OpenAIResponseData } from "../types/index.js";
+
+export const RESPONSES_URL = 'https://api.openai.com/v1/responses';
+
+const REQUEST_TIMEOUT_MS = 60_000;    // per HTTP call
+const COMPLETION_TIMEOUT_MS = 120_000; // until the response has to be completed
+const POLL_INTERVAL_MS = 2000;
+const PENDING_STATUSES = ['queued', 'in_progress'];
+
+/**
+ * Create a (foreground) response and return it once completed. The call
+ * normally answers with a completed response, but OpenAI may hand back one
+ * that is still queued or running; it is polled until it settles. Throws if
+ * it doesn't complete in time or ends in any other status. `label` names the
+ * response in errors.
+ */
+export async function runResponse(
+  body: Record<string, any>,
+  apiKey: string,
+  label: string
+): Promise<OpenAIResponseData> {
+  const response = await axios.post(RESPONSES_URL, body, {
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json'
+    },
+    timeout: REQUEST_TIMEOUT_MS
+  });
+
+  let responseData: OpenAIResponseData = response.data;
+  const deadline = Date.now() + COMPLETION_TIMEOUT_MS;
+
+  while (PENDING_STATUSES.includes(responseData.status)) {
+    if (Date.now() > deadline) {
+      throw new Error(`${label} response ${responseData.id} timed out (status: ${responseData.status})`);
+    }
+
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+
+    const polled = await axios.get(`${RESPONSES_URL}/${responseData.id}`, {
+      headers: { 'Authorization': `Bearer ${apiKey}` },
+      timeout: REQUEST_TIMEOUT_MS
+    });
+    responseData = polled.data;
+  }
+
+  if (responseData.status !== 'completed') {
+    throw new Error(`${label} response ${responseData.id} ended with status ${responseData.status}`);
+  }
+
+  return responseData;
+}
+
+/**
+ * Text of the response's message output, or null if it has none
+ */
+export function outputText(responseData: OpenAIResponseData): string | null {
+  const messageOutput = responseData.output?.find(output => output.type === 'message');
+  const textContent = messageOutput?.content?.find(content => content.type === 'output_text');
+  return textContent?.text || null;
+}
@@ -0,0 +1,110 @@
+import type { StoryGenerationRequest } from "../types/index.js";
+
+// Status of a script response, following the OpenAI Responses API
+export type ScriptStatus = 'queued' | 'in_progress' | 'completed' | 'failed' | 'cancelled' | 'incomplete';
+
+export interface ScriptRequest {
+  params: StoryGenerationRequest;
+  systemPrompt: string;
+  userPrompt: string;
+  schema: Record<string, any>; // JSON schema the script must match (video or audio-only)
+}
+
+export interface ScriptResponse {
+  id: string;
+  status: ScriptStatus;
+  script?: Record<string, any>; // Parsed script, once completed
+  error?: string;
+}
+
+/**
+ * Writes story scripts. Providers may answer asynchronously (the response
+ * completes later and is picked up by the webhook or the reconciler) or
+ * return an already completed response.
+ */
+export interface ScriptProvider {
+  requestScript(request: ScriptRequest): Promise<ScriptResponse>;
+  getScript(responseId: string): Promise<ScriptResponse>;
+  cancelScript(responseId: string): Promise<void>;
+}
+
+export interface ShotPlanRequest {
+  sceneDescription: string;
+  dialogue: Array<{ text: string; voice_id?: string }>;
+  shotsNeeded: number;
+  context?: {
+    setting?: { name?: string; uuid?: string; description?: string };
+    characters?: Array<{ name?: string; uuid?: string; description?: string; appearances?: number }>;
+  };
+  targetDurations?: number[];
+  sceneDuration?: number;
+}
+
+export interface PlannedShot {
+  shot: number;
+  duration: number;
+  prompt: string;
+}
+
+/**
+ * Splits a scene into individual camera shots, each with its own image prompt
+ */
+export interface ShotPlanner {
+  planShots(request: ShotPlanRequest): Promise<PlannedShot[]>;
+}
+
+export interface SpeechInput {
+  text: string;
+  voice_id: string;
+}
+
+// Where one input is spoken in the generated audio, in seconds
+export interface InputTiming {
+  index: number; // Position in the inputs array
+  start: number;
+  end: number;
+}
+
+export interface SpeechResult {
+  audio: Buffer; // MP3
+  timings: InputTiming[];
+}
+
+/**
+ * Voices a scene's dialogue inputs as a single audio clip
+ */
+export interface SpeechProvider {
+  synthesize(inputs: SpeechInput[]): Promise<SpeechResult>;
+}
+
+// A sentence of the voice track, in seconds
+export interface TimedSentence {
+  index: number;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface HighlightRequest {
+  title: string;
+  sentences: TimedSentence[];
+  sceneStarts: number[]; // Where each scene starts in the voice track, in seconds
+  count: number;
+  minDurationSec: number;
+  maxDurationSec: number;
+}
+
+// Part of the voice track to cut a highlight clip from
+export interface HighlightSpan {
+  start: number;
+  end: number;
+  title: string; // Shown on the clip's title card
+}
+
+/**
+ * Chooses the most engaging, self-contained stretches of a story for
+ * short-form clips. Spans returned don't overlap and are in story order.
+ */
+export interface HighlightPicker {
+  pickHighlights(request: HighlightRequest): Promise<HighlightSpan[]>;
+}
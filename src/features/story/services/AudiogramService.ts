@@ -0,0 +1,110 @@
+import prisma from "../../../lib/prisma.js";
+import logger from "../../../utils/logger.js";
+import { HttpError } from "../../../utils/httpError.js";
+import { jobQueue, JobTypes } from "../../jobs/JobQueue.js";
+import { VideoService } from "../../events/VideoService.js";
+import { CoverService } from "./CoverService.js";
+import type { AudiogramJob } from "../../jobs/types/index.js";
+import type { AudiogramStatus } from "../types/index.js";
+
+const videoService = new VideoService();
+const coverService = new CoverService();
+
+/**
+ * Audiogram videos of audio-only stories, for posting on video platforms.
+ * Requested at generation or later; rendered by the VideoService in a job once
+ * the story's final mix exists.
+ */
+export class AudiogramService {
+  /**
+   * Queue (re)rendering of a completed audio-only story's audiogram
+   */
+  async requestAudiogram(userId: string, storyId: string): Promise<void> {
+    const story = await prisma.story.findFirst({
+      where: { id: storyId, user_id: userId },
+      select: { video: true, status: true }
+    });
+
+    if (!story) {
+      throw new HttpError(404, 'Story not found or access denied');
+    }
+    if (story.video) {
+      throw new HttpError(409, 'Audiograms are only rendered for audio-only stories');
+    }
+    if (story.status !== 'completed') {
+      throw new HttpError(409, `Story audio is not mixed yet (status: ${story.status})`);
+    }
+
+    const jobId = await this.queueAudiogram(storyId);
+    if (!jobId) {
+      throw new HttpError(409, 'An audiogram is already being rendered for this story');
+    }
+  }
+
+  /**
+   * Queue the audiogram of a story that asked for one at generation, now that
+   * its final mix is done
+   */
+  async queueIfRequested(storyId: string): Promise<void> {
+    const story = await prisma.story.findUnique({
+      where: { id: storyId },
+      select: { audiogram_status: true }
+    });
+
+    if (story?.audiogram_status === 'pending') {
+      await this.queueAudiogram(storyId);
+    }
+  }
+
+  /**
+   * Audiogram job handler
+   */
+  async generateAudiogram(storyId: string): Promise<void> {
+    await this.setStatus(storyId, 'rendering');
+
+    // Audio-only stories get their cover as they complete; draw it if that failed
+    const story = await prisma.story.findUnique({
+      where: { id: storyId },
+      select: { cover_urls: true }
+    });
+    if (!story?.cover_urls) {
+      await coverService.generateCover(storyId);
+    }
+
+    await videoService.renderAudiogram(storyId);
+    await this.setStatus(storyId, 'completed');
+  }
+
+  async markFailed(storyId: string, error: string): Promise<void> {
+    await this.setStatus(storyId, 'failed', error);
+    logger.error(`Audiogram for story ${storyId} failed: ${error}`);
+  }
+
+  /**
+   * Enqueue the audiogram and mark it pending. Returns null, leaving the status
+   * alone, if one is already queued or running; that job sets the status as it goes.
+   */
+  private async queueAudiogram(storyId: string): Promise<string | null> {
+    const jobId = await jobQueue.enqueue<AudiogramJob>(
+      JobTypes.AUDIOGRAM,
+      { storyId },
+      { jobId: `${JobTypes.AUDIOGRAM}:${storyId}` }
+    );
+
+    if (jobId) {
+      // Skipped if the new job already started rendering
+      await prisma.story.updateMany({
+        where: { id: storyId, OR: [{ audiogram_status: null }, { audiogram_status: { not: 'rendering' } }] },
+        data: { audiogram_status: 'pending', audiogram_error: null }
+      });
+    }
+    return jobId;
+  }
+
+  private async setStatus(storyId: string, status: AudiogramStatus, error: string | null = null): Promise<void> {
+    await prisma.story.update({
+      where: { id: storyId },
+      data: { audiogram_status: status, audiogram_error: error }
+    });
+  }
+}
@@ -0,0 +1,312 @@
+import prisma from "../../../lib/prisma.js";
+import { HttpError } from "../../../utils/httpError.js";
+import type { CaptionCue, CaptionCueOptions, CaptionFormat, CaptionMode, CaptionOptions, CaptionPosition } from "../types/index.js";
+
+export const CAPTION_MODES: CaptionMode[] = ['off', 'burned', 'soft'];
+export const CAPTION_POSITIONS: CaptionPosition[] = ['bottom', 'middle', 'top'];
+export const CAPTION_FORMATS: CaptionFormat[] = ['srt', 'vtt', 'ass'];
+
+export const DEFAULT_CAPTION_OPTIONS: Required<CaptionOptions> = {
+  mode: 'off',
+  maxWordsPerLine: 7,
+  font: 'Arial',
+  fontSize: 48,
+  position: 'bottom'
+};
+
+const DEFAULT_CUE_OPTIONS: Required<CaptionCueOptions> = {
+  maxCharsPerLine: 42,
+  maxLinesPerCue: 2,
+  maxWordsPerLine: Infinity,
+  maxCueDurationSec: 6,
+  offsetSec: 0
+};
+
+// A word ending a sentence, allowing closing quotes or brackets after the punctuation
+const SENTENCE_END = /[.!?…]["'”’)\]]*$/;
+
+// Exported ASS files are laid out for 1080p, like the rendered video
+const EXPORT_WIDTH = 1920;
+const EXPORT_HEIGHT = 1080;
+
+// Title font size relative to the caption font
+const TITLE_SCALE = 1.6;
+
+// ASS alignment uses numpad positions: bottom/middle/top centre
+const ASS_ALIGNMENT: Record<CaptionPosition, number> = { bottom: 2, middle: 5, top: 8 };
+
+interface SubtitleWord {
+  text: string;
+  start: number;
+  end: number;
+  type?: string;
+}
+
+/**
+ * Turns the word-level timestamps stored in Story.subtitles into caption cues
+ * and caption files
+ */
+export class CaptionService {
+  /**
+   * Validate caption options from a request body. Returns an error message, or null if valid.
+   */
+  static validateOptions(value: any): string | null {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return "captions must be an object";
+    }
+    if (!CAPTION_MODES.includes(value.mode)) {
+      return `captions.mode must be one of: ${CAPTION_MODES.join(', ')}`;
+    }
+    if (value.maxWordsPerLine !== undefined && !(Number.isInteger(value.maxWordsPerLine) && value.maxWordsPerLine > 0)) {
+      return "captions.maxWordsPerLine must be a positive integer";
+    }
+    if (value.font !== undefined && (typeof value.font !== 'string' || !/^[\w .-]{1,64}$/.test(value.font))) {
+      return "captions.font must be a font name";
+    }
+    if (value.fontSize !== undefined && !(Number.isInteger(value.fontSize) && value.fontSize >= 12 && value.fontSize <= 200)) {
+      return "captions.fontSize must be an integer between 12 and 200";
+    }
+    if (value.position !== undefined && !CAPTION_POSITIONS.includes(value.position)) {
+      return `captions.position must be one of: ${CAPTION_POSITIONS.join(', ')}`;
+    }
+    return null;
+  }
+
+  /**
+   * Caption options stored on a story, with defaults filled in
+   */
+  parseOptions(stored: string | null): Required<CaptionOptions> {
+    if (!stored) {
+      return DEFAULT_CAPTION_OPTIONS;
+    }
+    try {
+      return { ...DEFAULT_CAPTION_OPTIONS, ...JSON.parse(stored) };
+    } catch {
+      return DEFAULT_CAPTION_OPTIONS;
+    }
+  }
+
+  /**
+   * Caption file for a user's story in the given format, or null if the story
+   * doesn't exist or belongs to another user
+   */
+  async getStoryCaptions(
+    userId: string,
+    storyId: string,
+    format: CaptionFormat,
+    cueOptions: CaptionCueOptions = {}
+  ): Promise<string | null> {
+    const story = await prisma.story.findFirst({
+      where: { id: storyId, user_id: userId },
+      select: { subtitles: true, caption_options: true }
+    });
+
+    if (!story) {
+      return null;
+    }
+
+    const subtitles = story.subtitles ? JSON.parse(story.subtitles) : null;
+    const cues = this.buildCues(subtitles, cueOptions);
+    if (cues.length === 0) {
+      throw new HttpError(409, "Story has no subtitles yet");
+    }
+
+    if (format === 'srt') {
+      return this.toSrt(cues);
+    }
+    if (format === 'vtt') {
+      return this.toVtt(cues);
+    }
+
+    const options = this.parseOptions(story.caption_options);
+    return this.toAss(cues, {
+      font: options.font,
+      fontSize: options.fontSize,
+      position: options.position,
+      width: EXPORT_WIDTH,
+      height: EXPORT_HEIGHT
+    });
+  }
+
+  /**
+   * Group spoken words into readable cues. A cue ends when the next word
+   * wouldn't fit in its lines, when it would run past maxCueDurationSec, or at
+   * the end of a sentence. offsetSec shifts every cue, e.g. by the intro
+   * before the voice starts in video mode.
+   */
+  buildCues(subtitles: any, options: CaptionCueOptions = {}): CaptionCue[] {
+    const { maxCharsPerLine, maxLinesPerCue, maxWordsPerLine, maxCueDurationSec, offsetSec } = {
+      ...DEFAULT_CUE_OPTIONS,
+      ...this.definedOptions(options)
+    };
+    const cues: CaptionCue[] = [];
+
+    let lines: SubtitleWord[][] = [];
+    const flush = () => {
+      const cueWords = lines.flat();
+      if (cueWords.length > 0) {
+        cues.push({
+          start: cueWords[0]!.start + offsetSec,
+          end: cueWords[cueWords.length - 1]!.end + offsetSec,
+          lines: lines.map(line => line.map(word => word.text).join(' '))
+        });
+      }
+      lines = [];
+    };
+
+    for (const word of this.getWords(subtitles)) {
+      const cueStart = lines[0]?.[0]?.start;
+      if (cueStart !== undefined && word.end - cueStart > maxCueDurationSec) {
+        flush();
+      }
+
+      const line = lines[lines.length - 1];
+      const lineText = line?.map(w => w.text).join(' ') ?? '';
+      const fitsLine = line !== undefined &&
+        line.length < maxWordsPerLine &&
+        lineText.length + 1 + word.text.length <= maxCharsPerLine;
+
+      if (fitsLine) {
+        line.push(word);
+      } else {
+        if (lines.length >= maxLinesPerCue) {
+          flush();
+        }
+        lines.push([word]);
+      }
+
+      if (SENTENCE_END.test(word.text)) {
+        flush();
+      }
+    }
+    flush();
+
+    return cues;
+  }
+
+  /**
+   * Spoken words joined into sentences, with the time span of each
+   */
+  buildSentences(subtitles: any): Array<{ start: number; end: number; text: string }> {
+    const sentences: Array<{ start: number; end: number; text: string }> = [];
+    let current: SubtitleWord[] = [];
+
+    const flush = () => {
+      if (current.length > 0) {
+        sentences.push({
+          start: current[0]!.start,
+          end: current[current.length - 1]!.end,
+          text: current.map(word => word.text).join(' ')
+        });
+      }
+      current = [];
+    };
+
+    for (const word of this.getWords(subtitles)) {
+      current.push(word);
+      if (SENTENCE_END.test(word.text)) {
+        flush();
+      }
+    }
+    flush();
+
+    return sentences;
+  }
+
+  toSrt(cues: CaptionCue[]): string {
+    return cues
+      .map((cue, index) =>
+        `${index + 1}\n${this.formatTime(cue.start, ',')} --> ${this.formatTime(cue.end, ',')}\n${cue.lines.join('\n')}\n`
+      )
+      .join('\n');
+  }
+
+  toVtt(cues: CaptionCue[]): string {
+    const body = cues
+      .map(cue => `${this.formatTime(cue.start, '.')} --> ${this.formatTime(cue.end, '.')}\n${cue.lines.join('\n')}\n`)
+      .join('\n');
+    return `WEBVTT\n\n${body}`;
+  }
+
+  /**
+   * Advanced SubStation Alpha script, used to burn styled captions into the
+   * video. A title, if given, is shown large in the middle of the frame.
+   */
+  toAss(
+    cues: CaptionCue[],
+    style: { font: string; fontSize: number; position: CaptionPosition; width: number; height: number },
+    title?: { text: string; start: number; end: number }
+  ): string {
+    const header = [
+      '[Script Info]',
+      'ScriptType: v4.00+',
+      `PlayResX: ${style.width}`,
+      `PlayResY: ${style.height}`,
+      'WrapStyle: 2', // Lines are broken by us, never by the renderer
+      'ScaledBorderAndShadow: yes',
+      '',
+      '[V4+ Styles]',
+      'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+      // White text with a black outline and soft shadow
+      `Style: Default,${style.font},${style.fontSize},&H00FFFFFF,&H000000FF,&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,3,1,${ASS_ALIGNMENT[style.position]},80,80,60,1`,
+      // Bold and larger, wrapped by the renderer since titles aren't pre-broken
+      `Style: Title,${style.font},${Math.round(style.fontSize * TITLE_SCALE)},&H00FFFFFF,&H000000FF,&H00000000,&H80000000,-1,0,0,0,100,100,0,0,1,4,2,${ASS_ALIGNMENT.middle},80,80,60,1`,
+      '',
+      '[Events]',
+      'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text'
+    ];
+
+    const events = cues.map(cue => {
+      // Braces would start an override block
+      const text = cue.lines.map(line => line.replace(/[{}]/g, '')).join('\\N');
+      return `Dialogue: 0,${this.formatAssTime(cue.start)},${this.formatAssTime(cue.end)},Default,,0,0,0,,${text}`;
+    });
+
+    if (title) {
+      const text = title.text.replace(/[{}]/g, '');
+      // \q0 re-enables smart wrapping for this line only
+      events.unshift(`Dialogue: 1,${this.formatAssTime(title.start)},${this.formatAssTime(title.end)},Title,,0,0,0,,{\\q0}${text}`);
+    }
+
+    return [...header, ...events, ''].join('\n');
+  }
+
+  // Drop options passed as undefined so they don't override the defaults
+  private definedOptions(options: CaptionCueOptions): CaptionCueOptions {
+    return Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined));
+  }
+
+  private getWords(subtitles: any): SubtitleWord[] {
+    const words: any[] = Array.isArray(subtitles?.words) ? subtitles.words : [];
+    // ElevenLabs also returns spacing and audio-event entries
+    return words.filter(word =>
+      (word.type === undefined || word.type === 'word') &&
+      typeof word.text === 'string' && word.text.trim() &&
+      Number.isFinite(word.start) && Number.isFinite(word.end)
+    ).map(word => ({ ...word, text: word.text.trim() }));
+  }
+
+  /**
+   * HH:MM:SS<sep>mmm, as used by SRT (',') and WebVTT ('.')
+   */
+  private formatTime(seconds: number, separator: string): string {
+    const totalMs = Math.max(0, Math.round(seconds * 1000));
+    const hours = Math.floor(totalMs / 3_600_000);
+    const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+    const secs = Math.floor((totalMs % 60_000) / 1000);
+    const ms = totalMs % 1000;
+    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}${separator}${String(ms).padStart(3, '0')}`;
+  }
+
+  /**
+   * H:MM:SS.cc (centiseconds), as used by ASS
+   */
+  private formatAssTime(seconds: number): string {
+    const totalCs = Math.max(0, Math.round(seconds * 100));
+    const hours = Math.floor(totalCs / 360_000);
+    const minutes = Math.floor((totalCs % 360_000) / 6000);
+    const secs = Math.floor((totalCs % 6000) / 100);
+    const cs = totalCs % 100;
+    return `${hours}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}.${String(cs).padStart(2, '0')}`;
+  }
+}
@@ -0,0 +1,315 @@
+import crypto from "crypto";
+import sharp from "sharp";
+import prisma from "../../../lib/prisma.js";
+import storage, { fetchMedia } from "../../../lib/storage/index.js";
+import logger from "../../../utils/logger.js";
+import { HttpError } from "../../../utils/httpError.js";
+import { jobQueue, JobTypes } from "../../jobs/JobQueue.js";
+import type { CoverJob } from "../../jobs/types/index.js";
+import type { CoverUrls, CoverVariant, StoryCover } from "../types/index.js";
+
+interface CoverLayout {
+  width: number;
+  height: number;
+  fontScale: number; // Title font size as a fraction of the shorter side
+}
+
+export const COVER_VARIANTS: Record<CoverVariant, CoverLayout> = {
+  landscape: { width: 1920, height: 1080, fontScale: 0.09 },
+  square: { width: 1080, height: 1080, fontScale: 0.08 },
+  podcast: { width: 3000, height: 3000, fontScale: 0.09 } // Podcast directory artwork
+};
+
+// Shots scored when picking the cover automatically, sampled evenly across the story
+const MAX_CANDIDATE_SHOTS = 12;
+
+// Redraws when the pick or cover changes while one is being drawn
+const MAX_COVER_ATTEMPTS = 3;
+
+const MAX_TITLE_LINES = 3;
+const TITLE_FONT = "DejaVu Sans, Helvetica, Arial, sans-serif";
+
+interface CoverShot {
+  id: bigint;
+  buffer: Buffer;
+}
+
+/**
+ * Story cover art: the strongest shot (or the one the user picked) with the
+ * title composited on, in a landscape thumbnail, a square and podcast artwork.
+ * Audio-only stories have no shots and get a generated title card instead.
+ */
+export class CoverService {
+  /**
+   * Draw the story's cover variants, upload them and make the landscape one the
+   * story's image_url. Returns null if the story no longer exists.
+   */
+  async generateCover(storyId: string): Promise<StoryCover | null> {
+    for (let attempt = 1; attempt <= MAX_COVER_ATTEMPTS; attempt++) {
+      const story = await prisma.story.findUnique({
+        where: { id: storyId },
+        select: { title: true, public: true, cover_image_id: true, cover_urls: true }
+      });
+
+      if (!story) {
+        logger.warn(`Story ${storyId} not found, skipping cover`);
+        return null;
+      }
+
+      const shot = await this.chooseShot(storyId, story.cover_image_id);
+      const title = story.title || 'Untitled Story';
+      const timestamp = Date.now();
+
+      const variants = {} as CoverUrls;
+      for (const [variant, layout] of Object.entries(COVER_VARIANTS) as [CoverVariant, CoverLayout][]) {
+        const cover = await this.renderVariant(shot?.buffer ?? null, title, storyId, layout);
+        variants[variant] = await storage.put(`covers/${storyId}/${variant}_${timestamp}.jpg`, cover, {
+          contentType: 'image/jpeg',
+          public: story.public
+        });
+      }
+
+      // Only replace the cover this one was drawn over, from the shot pick it was drawn for
+      const { count } = await prisma.story.updateMany({
+        where: { id: storyId, cover_image_id: story.cover_image_id, cover_urls: story.cover_urls },
+        data: { image_url: variants.landscape, cover_urls: JSON.stringify(variants) }
+      });
+
+      if (count === 0) {
+        // The pick changed or another cover landed while drawing; draw again from the current state
+        logger.info(`Cover of story ${storyId} changed while drawing, redrawing (attempt ${attempt}/${MAX_COVER_ATTEMPTS})`);
+        await this.deleteVariants(JSON.stringify(variants));
+        continue;
+      }
+
+      await this.deleteVariants(story.cover_urls);
+
+      logger.info(`Cover generated for story ${storyId} from ${shot ? `shot ${shot.id}` : 'a title card'}`);
+      return { image_id: shot ? String(shot.id) : null, image_url: variants.landscape, variants };
+    }
+
+    throw new Error(`Cover of story ${storyId} kept changing while it was drawn`);
+  }
+
+  /**
+   * Use a shot of the user's story as its cover, or go back to picking one
+   * automatically when no shot is given, and queue the cover to be redrawn.
+   * Returns false if the story doesn't exist or belongs to another user.
+   */
+  async setCoverShot(
+    userId: string,
+    storyId: string,
+    shot: { sceneId: string; shotNumber: number } | null
+  ): Promise<boolean> {
+    const story = await prisma.story.findFirst({
+      where: { id: storyId, user_id: userId },
+      select: { id: true }
+    });
+
+    if (!story) {
+      return false;
+    }
+
+    let imageId: bigint | null = null;
+    if (shot) {
+      const image = await prisma.image.findUnique({
+        where: { story_id_scene_id_shot_number: { story_id: storyId, scene_id: shot.sceneId, shot_number: shot.shotNumber } },
+        select: { id: true, status: true, image_url: true }
+      });
+
+      if (!image) {
+        throw new HttpError(404, 'Shot not found');
+      }
+      if (image.status !== 'completed' || !image.image_url) {
+        throw new HttpError(409, `Shot has no image to use as the cover (status: ${image.status})`);
+      }
+      imageId = image.id;
+    }
+
+    await prisma.story.update({
+      where: { id: storyId },
+      data: { cover_image_id: imageId }
+    });
+
+    // A cover job already queued or drawing picks the new shot up
+    await jobQueue.enqueue<CoverJob>(
+      JobTypes.COVER,
+      { storyId },
+      { jobId: `${JobTypes.COVER}:${storyId}` }
+    );
+    return true;
+  }
+
+  /**
+   * The picked shot if it is still usable, otherwise the best scoring one.
+   * Null when the story has no finished shots.
+   */
+  private async chooseShot(storyId: string, pickedId: bigint | null): Promise<CoverShot | null> {
+    if (pickedId !== null) {
+      const picked = await prisma.image.findFirst({
+        where: { id: pickedId, story_id: storyId, status: 'completed', image_url: { not: null } },
+        select: { id: true, image_url: true }
+      });
+      if (picked) {
+        return { id: picked.id, buffer: await fetchMedia(picked.image_url!) };
+      }
+      logger.warn(`Cover shot ${pickedId} of story ${storyId} is no longer usable, picking one automatically`);
+    }
+
+    const shots = await prisma.image.findMany({
+      where: { story_id: storyId, status: 'completed', image_url: { not: null } },
+      orderBy: [{ scene_id: 'asc' }, { shot_number: 'asc' }],
+      select: { id: true, image_url: true }
+    });
+
+    // Evenly spaced sample, so long stories don't download every shot
+    const step = Math.max(1, shots.length / MAX_CANDIDATE_SHOTS);
+    const candidates = shots.filter((_, index) => index % step < 1);
+
+    let best: (CoverShot & { score: number }) | null = null;
+    for (const candidate of candidates) {
+      try {
+        const buffer = await fetchMedia(candidate.image_url!);
+        const score = await this.scoreShot(buffer);
+        if (!best || score > best.score) {
+          best = { id: candidate.id, buffer, score };
+        }
+      } catch (error) {
+        logger.warn(`Skipping cover candidate ${candidate.id}: ${error}`);
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * How well a shot works as a cover: detailed (entropy), in focus (sharpness)
+   * and neither too dark nor washed out, so the title reads against it
+   */
+  private async scoreShot(buffer: Buffer): Promise<number> {
+    const stats = await sharp(buffer).stats();
+    const colour = stats.channels.slice(0, 3);
+    const brightness = colour.reduce((sum, channel) => sum + channel.mean, 0) / colour.length;
+
+    return stats.entropy + Math.min(stats.sharpness, 10) / 5 - Math.abs(brightness - 128) / 64;
+  }
+
+  private async renderVariant(shot: Buffer | null, title: string, storyId: string, layout: CoverLayout): Promise<Buffer> {
+    const base = shot
+      ? sharp(shot).resize(layout.width, layout.height, { fit: 'cover', position: sharp.strategy.attention })
+      : sharp(Buffer.from(this.backgroundSvg(storyId, layout)));
+
+    return base
+      .composite([{ input: Buffer.from(this.titleSvg(title, layout, shot ? 'bottom' : 'center')) }])
+      .jpeg({ quality: 90, progressive: true })
+      .toBuffer();
+  }
+
+  /**
+   * Diagonal gradient for title cards, coloured from the story ID so each
+   * story keeps its own colours across redraws
+   */
+  private backgroundSvg(storyId: string, { width, height }: CoverLayout): string {
+    const hue = crypto.createHash('md5').update(storyId).digest().readUInt16BE(0) % 360;
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+      `<defs><linearGradient id="bg" x1="0" y1="0" x2="1" y2="1">` +
+      `<stop offset="0" stop-color="hsl(${hue}, 55%, 34%)"/>` +
+      `<stop offset="1" stop-color="hsl(${(hue + 40) % 360}, 60%, 12%)"/>` +
+      `</linearGradient></defs>` +
+      `<rect width="${width}" height="${height}" fill="url(#bg)"/>` +
+      `</svg>`;
+  }
+
+  /**
+   * Title overlay, centred horizontally. Over a shot it sits near the bottom on
+   * a dark fade; on a title card it is centred vertically.
+   */
+  private titleSvg(title: string, layout: CoverLayout, placement: 'bottom' | 'center'): string {
+    const { width, height } = layout;
+    const fontSize = Math.round(Math.min(width, height) * layout.fontScale);
+    const lineHeight = Math.round(fontSize * 1.2);
+    // Bold sans glyphs average about 0.6 of the font size in width
+    const maxChars = Math.floor(width * 0.85 / (fontSize * 0.62));
+
+    const lines = this.wrapTitle(title, maxChars);
+    const blockHeight = lines.length * lineHeight;
+    const blockTop = placement === 'center'
+      ? (height - blockHeight) / 2
+      : height - Math.round(height * 0.08) - blockHeight;
+
+    let shade = '';
+    if (placement === 'bottom') {
+      const shadeTop = Math.max(0, Math.round(blockTop - height * 0.15));
+      shade =
+        `<defs><linearGradient id="shade" x1="0" y1="0" x2="0" y2="1">` +
+        `<stop offset="0" stop-color="#000" stop-opacity="0"/>` +
+        `<stop offset="1" stop-color="#000" stop-opacity="0.75"/>` +
+        `</linearGradient></defs>` +
+        `<rect y="${shadeTop}" width="${width}" height="${height - shadeTop}" fill="url(#shade)"/>`;
+    }
+
+    // Baselines sit about 0.9 of the font size below the top of each line
+    const tspans = lines.map((line, index) =>
+      `<tspan x="${width / 2}" y="${Math.round(blockTop + index * lineHeight + fontSize * 0.9)}">${this.escapeXml(line)}</tspan>`
+    ).join('');
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${shade}` +
+      `<text text-anchor="middle" font-family="${TITLE_FONT}" font-size="${fontSize}" font-weight="bold" fill="#fff">${tspans}</text>` +
+      `</svg>`;
+  }
+
+  /**
+   * Break the title into lines of at most maxChars, ending with an ellipsis
+   * when it doesn't fit in MAX_TITLE_LINES
+   */
+  private wrapTitle(title: string, maxChars: number): string[] {
+    const lines: string[] = [];
+    let line = '';
+
+    for (const word of title.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (candidate.length <= maxChars) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = word.length > maxChars ? `${word.slice(0, maxChars - 1)}…` : word;
+    }
+    if (line) lines.push(line);
+
+    if (lines.length > MAX_TITLE_LINES) {
+      const last = lines[MAX_TITLE_LINES - 1]!;
+      lines.length = MAX_TITLE_LINES;
+      lines[MAX_TITLE_LINES - 1] = `${last.length < maxChars ? last : last.slice(0, maxChars - 1)}…`;
+    }
+
+    return lines;
+  }
+
+  private escapeXml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  /**
+   * Remove a previous cover's files; a leftover file is not worth failing over
+   */
+  private async deleteVariants(stored: string | null): Promise<void> {
+    if (!stored) return;
+
+    try {
+      for (const url of Object.values(JSON.parse(stored) as CoverUrls)) {
+        const key = storage.keyFromUrl(url);
+        if (key) {
+          await storage.delete(key);
+        }
+      }
+    } catch (error) {
+      logger.warn(`Failed to delete previous cover: ${error}`);
+    }
+  }
+}
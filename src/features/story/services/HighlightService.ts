@@ -0,0 +1,218 @@
+import prisma from "../../../lib/prisma.js";
+import logger from "../../../utils/logger.js";
+import { HttpError } from "../../../utils/httpError.js";
+import { jobQueue, JobTypes } from "../../jobs/JobQueue.js";
+import { VideoService } from "../../events/VideoService.js";
+import { CaptionService } from "./CaptionService.js";
+import { StoryMediaService } from "./StoryMediaService.js";
+import { highlightPicker, HeuristicHighlightPicker } from "../providers/index.js";
+import type { HighlightRequest, HighlightSpan } from "../providers/index.js";
+import type { HighlightsJob } from "../../jobs/types/index.js";
+import type { StoryHighlight } from "../types/index.js";
+
+const videoService = new VideoService();
+const captionService = new CaptionService();
+const storyMediaService = new StoryMediaService();
+const fallbackHighlightPicker = new HeuristicHighlightPicker();
+
+export const MAX_HIGHLIGHTS = 5;
+const MIN_HIGHLIGHT_SEC = 30;
+const MAX_HIGHLIGHT_SEC = 60;
+
+// Highlights are cut from the rendered video's assets
+const RENDERED_STATUSES = ['do_completed', 'completed'];
+
+/**
+ * Short vertical teaser clips cut from a rendered story. Spans are chosen by
+ * the highlight picker (the LLM, falling back to a heuristic) from the story's
+ * sentences and scene boundaries, then rendered by the VideoService in a job.
+ */
+export class HighlightService {
+  /**
+   * Validate a requested number of highlights. Returns an error message, or null if valid.
+   */
+  static validateCount(value: any): string | null {
+    if (!Number.isInteger(value) || value < 0 || value > MAX_HIGHLIGHTS) {
+      return `highlights must be an integer between 0 and ${MAX_HIGHLIGHTS}`;
+    }
+    return null;
+  }
+
+  /**
+   * Queue (re)generation of a story's highlights, replacing existing ones once the job runs
+   */
+  async requestHighlights(userId: string, storyId: string, count: number): Promise<void> {
+    const story = await prisma.story.findFirst({
+      where: { id: storyId, user_id: userId },
+      select: { video: true, status: true, subtitles: true }
+    });
+
+    if (!story) {
+      throw new HttpError(404, 'Story not found or access denied');
+    }
+    if (!story.video) {
+      throw new HttpError(409, 'Highlights can only be cut from video stories');
+    }
+    if (!RENDERED_STATUSES.includes(story.status)) {
+      throw new HttpError(409, `Story video is not rendered yet (status: ${story.status})`);
+    }
+    if (!story.subtitles) {
+      throw new HttpError(409, 'Story has no subtitles to cut highlights from');
+    }
+
+    const jobId = await this.queueHighlights(storyId, count);
+    if (!jobId) {
+      throw new HttpError(409, 'Highlights are already being generated for this story');
+    }
+  }
+
+  /**
+   * Enqueue the highlights job. Returns null if one is already queued or running.
+   */
+  async queueHighlights(storyId: string, count: number): Promise<string | null> {
+    return jobQueue.enqueue<HighlightsJob>(
+      JobTypes.HIGHLIGHTS,
+      { storyId, count },
+      { jobId: `${JobTypes.HIGHLIGHTS}:${storyId}` }
+    );
+  }
+
+  /**
+   * Highlights of a user's story, with signed URLs for private stories, or
+   * null if the story doesn't exist or belongs to another user
+   */
+  async listHighlights(userId: string, storyId: string): Promise<StoryHighlight[] | null> {
+    const story = await prisma.story.findFirst({
+      where: { id: storyId, user_id: userId },
+      select: {
+        public: true,
+        highlights: { orderBy: { clip_number: 'asc' } }
+      }
+    });
+
+    if (!story) {
+      return null;
+    }
+
+    return Promise.all(story.highlights.map(async highlight => ({
+      id: highlight.id,
+      clip_number: highlight.clip_number,
+      title: highlight.title,
+      start_sec: highlight.start_sec,
+      end_sec: highlight.end_sec,
+      source: highlight.source,
+      duration: highlight.duration,
+      video_url: highlight.video_url && !story.public
+        ? await storyMediaService.signUrl(highlight.video_url)
+        : highlight.video_url,
+      loudness_lufs: highlight.loudness_lufs,
+      status: highlight.status,
+      error: highlight.error
+    })));
+  }
+
+  /**
+   * Highlights job handler: pick the spans, replace the story's highlights
+   * with pending rows, render them and record each clip's outcome
+   */
+  async generateHighlights(storyId: string, count: number): Promise<void> {
+    const story = await prisma.story.findUnique({
+      where: { id: storyId },
+      select: { title: true, subtitles: true }
+    });
+    if (!story?.subtitles) {
+      logger.warn(`Story ${storyId} has no subtitles, skipping highlights`);
+      return;
+    }
+
+    const request = await this.buildRequest(storyId, story.title || 'Untitled Story', JSON.parse(story.subtitles), count);
+    if (request.sentences.length === 0) {
+      logger.warn(`Story ${storyId} has no spoken sentences, skipping highlights`);
+      return;
+    }
+
+    const { spans, source } = await this.pickSpans(request);
+    if (spans.length === 0) {
+      logger.warn(`No highlight spans found for story ${storyId}`);
+      return;
+    }
+
+    await prisma.$transaction([
+      prisma.highlight.deleteMany({ where: { story_id: storyId } }),
+      prisma.highlight.createMany({
+        data: spans.map((span, index) => ({
+          story_id: storyId,
+          clip_number: index + 1,
+          title: span.title.slice(0, 200),
+          start_sec: span.start,
+          end_sec: span.end,
+          source
+        }))
+      })
+    ]);
+    logger.info(`Rendering ${spans.length} highlights for story ${storyId} (${source} spans)`);
+
+    const results = await videoService.renderHighlights(storyId, spans.map((span, index) => ({
+      clipNumber: index + 1,
+      start: span.start,
+      end: span.end,
+      title: span.title
+    })));
+
+    for (const result of results) {
+      await prisma.highlight.update({
+        where: { story_id_clip_number: { story_id: storyId, clip_number: result.clipNumber } },
+        data: result.videoUrl
+          ? { status: 'completed', video_url: result.videoUrl, duration: result.duration, loudness_lufs: result.loudness, error: null }
+          : { status: 'failed', error: result.error }
+      });
+    }
+  }
+
+  /**
+   * Mark highlights that never finished rendering as failed
+   */
+  async markPendingFailed(storyId: string, error: string): Promise<void> {
+    await prisma.highlight.updateMany({
+      where: { story_id: storyId, status: 'pending' },
+      data: { status: 'failed', error }
+    });
+  }
+
+  private async buildRequest(storyId: string, title: string, subtitles: any, count: number): Promise<HighlightRequest> {
+    const segments = await prisma.audioSegment.findMany({
+      where: { story_id: storyId, status: 'completed' },
+      orderBy: { scene_number: 'asc' },
+      select: { scene_duration: true }
+    });
+
+    // Scenes are concatenated in order, so each starts where the previous ones end
+    const sceneStarts: number[] = [];
+    let elapsed = 0;
+    for (const segment of segments) {
+      sceneStarts.push(elapsed);
+      elapsed += segment.scene_duration ? Number(segment.scene_duration) : 0;
+    }
+
+    return {
+      title,
+      sentences: captionService.buildSentences(subtitles).map((sentence, index) => ({ index, ...sentence })),
+      sceneStarts,
+      count,
+      minDurationSec: MIN_HIGHLIGHT_SEC,
+      maxDurationSec: MAX_HIGHLIGHT_SEC
+    };
+  }
+
+  private async pickSpans(request: HighlightRequest): Promise<{ spans: HighlightSpan[]; source: 'llm' | 'heuristic' }> {
+    if (!(highlightPicker instanceof HeuristicHighlightPicker)) {
+      try {
+        return { spans: await highlightPicker.pickHighlights(request), source: 'llm' };
+      } catch (error) {
+        logger.warn(`Highlight picker failed, falling back to heuristic: ${error}`);
+      }
+    }
+
+    return { spans: await fallbackHighlightPicker.pickHighlights(request), source: 'heuristic' };
+  }
+}
@@ -2,25 +2,18 @@ import prisma from "../../../lib/prisma.js";
 import axios from "axios";
 import logger from "../../../utils/logger.js";
 import sharp from "sharp";
-import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
+import storage from "../../../lib/storage/index.js";
 import crypto from "crypto";
+import { StoryStatusService } from "./StoryStatusService.js";
+import { StoryMediaService } from "./StoryMediaService.js";
+import { HttpError } from "../../../utils/httpError.js";
+import type { Image } from "@prisma/client";
 import type { EnhancedScript, Scene, OpenAIResponseData } from "../types/index.js";
 
-export class ImageService {
-  private s3Client: S3Client;
-
-  constructor() {
-    // Initialize Digital Ocean Spaces client (S3 compatible)
-    this.s3Client = new S3Client({
-      endpoint: process.env.DO_SPACES_ENDPOINT!, // Force non-undefined with !
-      region: process.env.DO_SPACES_REGION || 'sfo3',
-      credentials: {
-        accessKeyId: process.env.DO_SPACES_KEY!,
-        secretAccessKey: process.env.DO_SPACES_SECRET!
-      }
-    });
-  }
+const storyStatusService = new StoryStatusService();
+const storyMediaService = new StoryMediaService();
 
+export class ImageService {
   private async getAnchorRefsForScene(
     storyId: string,
     scene: any
@@ -100,6 +93,10 @@ export class ImageService {
 
       // Generate image for each anchor
       for (const anchor of anchorsToGenerate) {
+        if (await storyStatusService.isCancelled(storyId)) {
+          logger.info(`Story ${storyId} was cancelled, not generating remaining anchor images`);
+          return;
+        }
         await this.generateAnchorImage(storyId, anchor, imageStyle);
       }
 
@@ -189,33 +186,213 @@ export class ImageService {
     shotData: {shot: number, duration: number, prompt: string}[]
   ): Promise<void> {
     try {
+      if (await storyStatusService.isCancelled(storyId)) {
+        logger.info(`Story ${storyId} was cancelled, skipping images for scene ${scene.id}`);
+        return;
+      }
+
       logger.info(`Starting image generation for scene ${scene.id}, duration: ${actualDuration}s, shots: ${shotData.length}`);
       
       // Resolve anchor references (2+ appearances) and one-off setting hint for this scene
       const { previousResponseIds, settingHint } = await this.getAnchorRefsForScene(storyId, scene);
 
       // Generate one image for each shot with its specific duration
-      const imagePromises = shotData.map((shotInfo) =>
-        this.generateImageForShot(
-          storyId,
-          scene.id,
-          shotInfo.prompt,
-          shotInfo.shot,
-          imageStyle,
-          shotInfo.duration,
-          { previousResponseIds, settingHint }
+      const results = await Promise.allSettled(
+        shotData.map((shotInfo) =>
+          this.generateImageForShot(
+            storyId,
+            scene.id,
+            shotInfo.prompt,
+            shotInfo.shot,
+            imageStyle,
+            shotInfo.duration,
+            { previousResponseIds, settingHint }
+          )
         )
       );
 
-      await Promise.all(imagePromises);
+      // A shot that couldn't be submitted is left to the images retry rather than failing the scene
+      let failed = 0;
+      for (const [index, shotInfo] of shotData.entries()) {
+        const result = results[index];
+        if (result?.status === 'rejected') {
+          await this.markShotSubmitFailed(
+            storyId,
+            scene.id,
+            shotInfo.shot,
+            shotInfo.duration,
+            this.buildShotPrompt(shotInfo.prompt, { settingHint }),
+            result.reason
+          );
+          failed++;
+        }
+      }
 
-      logger.info(`Generated ${shotData.length} images for scene: ${scene.id}`);
+      logger.info(`Submitted ${shotData.length - failed} of ${shotData.length} images for scene: ${scene.id}`);
     } catch (error) {
       logger.error(`Error generating images for scene ${scene.id}: ${error}`);
       throw error;
     }
   }
 
+  /**
+   * Re-submit every failed shot of a story with its stored prompt and the scene's anchor references.
+   * Returns the number of shots re-submitted.
+   */
+  async retryFailedImages(storyId: string): Promise<number> {
+    const story = await prisma.story.findUnique({
+      where: { id: storyId },
+      select: { transcript: true, image_style: true }
+    });
+
+    if (!story?.transcript) {
+      throw new Error(`Story ${storyId} has no script`);
+    }
+
+    const scriptData: EnhancedScript = JSON.parse(story.transcript);
+    const imageStyle = scriptData.metadata?.imageStyle || story.image_style || '';
+
+    const failedImages = await prisma.image.findMany({
+      where: { story_id: storyId, status: 'failed' },
+      orderBy: [{ scene_id: 'asc' }, { shot_number: 'asc' }]
+    });
+
+    for (const image of failedImages) {
+      const scene = scriptData.scenes.find((s) => s.id === image.scene_id);
+      const { previousResponseIds } = await this.getAnchorRefsForScene(storyId, scene);
+
+      await this.generateImageForShot(
+        storyId,
+        image.scene_id,
+        image.image_prompt,
+        image.shot_number,
+        imageStyle,
+        image.duration ?? 10,
+        { previousResponseIds, promptIsFinal: true }
+      );
+    }
+
+    logger.info(`Re-submitted ${failedImages.length} failed images for story ${storyId}`);
+    return failedImages.length;
+  }
+
+  /**
+   * Generate a new image for one shot, keeping the current image as a prior version.
+   * With no prompt override the shot's stored prompt is reused.
+   */
+  async regenerateShotImage(image: Image, scene: any, imageStyle: string, imagePrompt?: string): Promise<void> {
+    const { previousResponseIds, settingHint } = await this.getAnchorRefsForScene(image.story_id, scene);
+
+    await this.generateImageForShot(
+      image.story_id,
+      image.scene_id,
+      imagePrompt ?? image.image_prompt,
+      image.shot_number,
+      imageStyle,
+      image.duration ?? 10,
+      imagePrompt !== undefined
+        ? { previousResponseIds, settingHint }
+        : { previousResponseIds, promptIsFinal: true }
+    );
+
+    // Archive only once the new generation is submitted, so a failed request leaves no stray version
+    await this.archiveImageVersion(image);
+
+    logger.info(`Regenerating scene ${image.scene_id} shot #${image.shot_number} for story ${image.story_id}`);
+  }
+
+  /**
+   * Replace a shot's image with an uploaded one, keeping the current image as a prior version
+   */
+  async replaceShotImage(image: Image, fileBuffer: Buffer): Promise<string> {
+    try {
+      await sharp(fileBuffer).metadata();
+    } catch (error) {
+      throw new HttpError(400, 'Uploaded file is not a readable image');
+    }
+
+    const imageUrl = await this.uploadImageBuffer(fileBuffer, image.scene_id, image.story_id, image.shot_number);
+
+    await this.archiveImageVersion(image);
+
+    await prisma.image.update({
+      where: { id: image.id },
+      data: {
+        image_url: imageUrl,
+        status: 'completed',
+        source: 'user',
+        error: null,
+        openai_response_id: null // detach from the generated response so a late webhook can't overwrite the upload
+      }
+    });
+
+    logger.info(`User image uploaded for scene ${image.scene_id} shot #${image.shot_number}: ${imageUrl}`);
+    return imageUrl;
+  }
+
+  private async archiveImageVersion(image: Image): Promise<void> {
+    if (!image.image_url) return;
+
+    await prisma.imageVersion.create({
+      data: {
+        image_id: image.id,
+        image_url: image.image_url,
+        image_prompt: image.image_prompt,
+        openai_response_id: image.openai_response_id,
+        source: image.source
+      }
+    });
+  }
+
+  /**
+   * Prompt sent for a shot. The shot prompt is used as-is since it's already styled
+   * by OpenAI; only the setting hint and an explicit no-text instruction are added
+   * (a stored prompt already has them).
+   */
+  private buildShotPrompt(shotPrompt: string, opts?: { settingHint?: string | null; promptIsFinal?: boolean }): string {
+    if (opts?.promptIsFinal) {
+      return shotPrompt;
+    }
+
+    return opts?.settingHint
+      ? `${shotPrompt}. Environment: ${opts.settingHint}. No text, captions, or written words visible in the image.`
+      : `${shotPrompt}. No text, captions, or written words visible in the image.`;
+  }
+
+  /**
+   * Record a shot whose image request never reached OpenAI as failed, with the
+   * prompt it should be retried with
+   */
+  private async markShotSubmitFailed(
+    storyId: string,
+    sceneId: string,
+    shotNumber: number,
+    shotDuration: number,
+    finalPrompt: string,
+    error: unknown
+  ): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+
+    await prisma.image.upsert({
+      where: {
+        story_id_scene_id_shot_number: { story_id: storyId, scene_id: sceneId, shot_number: shotNumber },
+      },
+      create: {
+        story_id: storyId,
+        scene_id: sceneId,
+        shot_number: shotNumber,
+        duration: shotDuration,
+        image_prompt: finalPrompt,
+        status: 'failed',
+        error: message,
+      },
+      update: {
+        status: 'failed',
+        error: message,
+      },
+    });
+  }
+
   // Generate a single image for a given shot with specific duration
   private async generateImageForShot(
     storyId: string,
@@ -224,7 +401,7 @@ export class ImageService {
     shotNumber: number,
     imageStyle: string,
     shotDuration: number,
-    opts?: { previousResponseIds?: string[]; settingHint?: string | null }
+    opts?: { previousResponseIds?: string[]; settingHint?: string | null; promptIsFinal?: boolean }
   ): Promise<void> {
     try {
       const apiKey = process.env.OPENAI_API_KEY;
@@ -232,11 +409,7 @@ export class ImageService {
         throw new Error('OpenAI API key not configured');
       }
 
-      // Use the shot prompt as-is since it's already styled by OpenAI
-      // Only add setting hint and explicit no-text instruction
-      const finalPrompt = opts?.settingHint
-        ? `${shotPrompt}. Environment: ${opts.settingHint}. No text, captions, or written words visible in the image.`
-        : `${shotPrompt}. No text, captions, or written words visible in the image.`;
+      const finalPrompt = this.buildShotPrompt(shotPrompt, opts);
 
       logger.info(`Generating shot ${shotNumber} for scene ${sceneId} (${shotDuration}s): using OpenAI-styled prompt`);
 
@@ -273,9 +446,12 @@ export class ImageService {
 
       const openaiResponse = response.data;
 
-      // Create image record for this shot with duration
-      await prisma.image.create({
-        data: {
+      // Create image record for this shot with duration (or point a retried shot at the new response)
+      await prisma.image.upsert({
+        where: {
+          story_id_scene_id_shot_number: { story_id: storyId, scene_id: sceneId, shot_number: shotNumber },
+        },
+        create: {
           story_id: storyId,
           scene_id: sceneId,
           shot_number: shotNumber,
@@ -284,6 +460,13 @@ export class ImageService {
           openai_response_id: openaiResponse.id,
           status: 'processing',
         },
+        update: {
+          image_prompt: finalPrompt,
+          openai_response_id: openaiResponse.id,
+          status: 'processing',
+          source: 'generated',
+          error: null,
+        },
       });
 
       // Track response for webhook/async completion
@@ -423,10 +606,20 @@ export class ImageService {
     storyId: string, 
     shotNumber?: number
   ): Promise<string> {
-    try {
-      // Convert base64 to buffer
-      const imageBuffer = Buffer.from(base64Data, 'base64');
+    // Convert base64 to buffer
+    return this.uploadImageBuffer(Buffer.from(base64Data, 'base64'), sceneId, storyId, shotNumber);
+  }
 
+  /**
+   * Compress an image and upload it to media storage under the story's images. Returns its URL.
+   */
+  private async uploadImageBuffer(
+    imageBuffer: Buffer,
+    sceneId: string,
+    storyId: string,
+    shotNumber?: number
+  ): Promise<string> {
+    try {
       // Compress the image using Sharp
       const compressedBuffer = await sharp(imageBuffer)
         .jpeg({ 
@@ -445,21 +638,12 @@ export class ImageService {
       const shotSuffix = shotNumber ? `_shot${shotNumber}` : '';
       const fileName = `images/${storyId}/${sceneId}${shotSuffix}_${timestamp}_${hash}.jpg`;
 
-      // Upload to Digital Ocean Spaces
-      const uploadCommand = new PutObjectCommand({
-        Bucket: process.env.DO_SPACES_BUCKET!,
-        Key: fileName,
-        Body: compressedBuffer,
-        ContentType: 'image/jpeg',
-        ACL: 'public-read'
+      // Upload to media storage
+      const publicUrl = await storage.put(fileName, compressedBuffer, {
+        contentType: 'image/jpeg',
+        public: await storyMediaService.isPublic(storyId)
       });
 
-      await this.s3Client.send(uploadCommand);
-
-      // Construct the public URL
-      const baseUrl = process.env.DO_SPACES_CDN_URL || `https://${process.env.DO_SPACES_BUCKET}.${process.env.DO_SPACES_REGION}.digitaloceanspaces.com`;
-      const publicUrl = `${baseUrl}/${fileName}`;
-
       logger.info(`Image uploaded successfully: ${publicUrl}`);
       return publicUrl;
 
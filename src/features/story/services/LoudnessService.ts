@@ -0,0 +1,151 @@
+import ffmpeg from "fluent-ffmpeg";
+import logger from "../../../utils/logger.js";
+import type { LoudnessMeasurement, LoudnessTarget } from "../types/index.js";
+
+/**
+ * A loudness setting from the environment, or the default when unset. Values
+ * loudnorm would reject fail here, at startup, rather than in the middle of a render.
+ */
+function loudnessSetting(name: string, fallback: number, min: number, max: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') {
+    return fallback;
+  }
+
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < min || value > max) {
+    throw new Error(`${name} must be a number between ${min} and ${max}, got "${raw}"`);
+  }
+  return value;
+}
+
+// loudnorm's accepted ranges: I -70..-5 LUFS, TP -9..0 dBTP, LRA 1..50 LU
+const TRUE_PEAK_DBTP = loudnessSetting('LOUDNESS_TRUE_PEAK_DBTP', -1.5, -9, 0);
+const LOUDNESS_RANGE_LU = loudnessSetting('LOUDNESS_RANGE_LU', 11, 1, 50);
+
+export const LOUDNESS_TARGETS = {
+  // Voice scenes and audio-only stories
+  podcast: {
+    integrated: loudnessSetting('LOUDNESS_PODCAST_LUFS', -16, -70, -5),
+    truePeak: TRUE_PEAK_DBTP,
+    range: LOUDNESS_RANGE_LU
+  },
+  // Everything posted as video: rendered stories, highlights and audiograms
+  video: {
+    integrated: loudnessSetting('LOUDNESS_VIDEO_LUFS', -14, -70, -5),
+    truePeak: TRUE_PEAK_DBTP,
+    range: LOUDNESS_RANGE_LU
+  }
+} satisfies Record<string, LoudnessTarget>;
+
+// Called with each ffmpeg command before it runs, so callers can track (and kill) it
+type CommandHook = (command: ffmpeg.FfmpegCommand) => void;
+
+// loudnorm works at 192 kHz internally; resample its output back down
+const OUTPUT_SAMPLE_RATE = 44100;
+
+/**
+ * Two-pass EBU R128 loudness normalization with ffmpeg's loudnorm filter. The
+ * first pass measures the file; the second applies a single linear gain from
+ * that measurement, so dynamics are kept and nothing pumps.
+ */
+export class LoudnessService {
+  /**
+   * Measure a file's loudness (the first pass). The input side of loudnorm's
+   * stats doesn't depend on the target, so the defaults do.
+   */
+  async measure(inputPath: string, onCommand?: CommandHook): Promise<LoudnessMeasurement> {
+    const stats = await this.runLoudnorm(inputPath, null, 'loudnorm=print_format=json', [], onCommand);
+    return this.toMeasurement(stats, 'input');
+  }
+
+  /**
+   * Normalize a file's audio to the target. outputOptions pick the codecs of
+   * the output (a video stream can be copied through); onCommand sees both
+   * passes' ffmpeg commands. Returns the loudness before and after.
+   */
+  async normalize(
+    inputPath: string,
+    outputPath: string,
+    target: LoudnessTarget,
+    outputOptions: string[],
+    onCommand?: CommandHook
+  ): Promise<{ input: LoudnessMeasurement; output: LoudnessMeasurement }> {
+    const input = await this.measure(inputPath, onCommand);
+
+    // Silence measures as -inf and can't be corrected linearly; fall back to loudnorm's one-pass mode
+    let filter = this.loudnormFilter(target);
+    if (Object.values(input).every(Number.isFinite)) {
+      filter += `:measured_I=${input.integrated}:measured_TP=${input.truePeak}` +
+        `:measured_LRA=${input.range}:measured_thresh=${input.threshold}:linear=true`;
+    } else {
+      logger.warn(`Loudness of ${inputPath} could not be measured, normalizing in one pass`);
+    }
+
+    const stats = await this.runLoudnorm(inputPath, outputPath, filter, outputOptions, onCommand);
+    const output = this.toMeasurement(stats, 'output');
+
+    logger.info(`Normalized ${inputPath}: ${input.integrated} LUFS -> ${output.integrated} LUFS (target ${target.integrated})`);
+    return { input, output };
+  }
+
+  /**
+   * Integrated loudness to store, or null if it couldn't be measured (silence)
+   */
+  storedLufs(measurement: LoudnessMeasurement): number | null {
+    return Number.isFinite(measurement.integrated) ? measurement.integrated : null;
+  }
+
+  private loudnormFilter(target: LoudnessTarget): string {
+    return `loudnorm=I=${target.integrated}:TP=${target.truePeak}:LRA=${target.range}:print_format=json`;
+  }
+
+  /**
+   * Run loudnorm over the file's audio, writing to outputPath (or nowhere when
+   * only measuring), and return the stats it prints
+   */
+  private async runLoudnorm(
+    inputPath: string,
+    outputPath: string | null,
+    filter: string,
+    outputOptions: string[],
+    onCommand?: CommandHook
+  ): Promise<Record<string, string>> {
+    return new Promise((resolve, reject) => {
+      const command = ffmpeg(inputPath).audioFilters(filter);
+
+      if (outputPath) {
+        command.outputOptions(['-ar', String(OUTPUT_SAMPLE_RATE), ...outputOptions]).output(outputPath);
+      } else {
+        command.outputOptions(['-vn', '-f', 'null']).output('-');
+      }
+
+      command
+        .on('end', (_stdout: string | null, stderr: string | null) => {
+          // loudnorm prints its stats as the last JSON object on stderr
+          const json = stderr?.match(/\{[^{}]*"input_i"[^{}]*\}/g)?.pop();
+          if (!json) {
+            reject(new Error(`loudnorm printed no stats for ${inputPath}`));
+            return;
+          }
+          resolve(JSON.parse(json));
+        })
+        .on('error', (err) => {
+          logger.error(`Loudness ${outputPath ? 'normalization' : 'measurement'} error: ${err.message}`);
+          reject(err);
+        });
+
+      onCommand?.(command);
+      command.run();
+    });
+  }
+
+  private toMeasurement(stats: Record<string, string>, side: 'input' | 'output'): LoudnessMeasurement {
+    return {
+      integrated: Number(stats[`${side}_i`]),
+      truePeak: Number(stats[`${side}_tp`]),
+      range: Number(stats[`${side}_lra`]),
+      threshold: Number(stats[`${side}_thresh`])
+    };
+  }
+}
@@ -0,0 +1,133 @@
+import crypto from "crypto";
+import type { MotionOptions, MotionPreset, TransitionType } from "../types/index.js";
+
+export const MOTION_PRESETS: MotionPreset[] = ['zoom_in', 'zoom_out', 'pan_left', 'pan_right'];
+export const TRANSITION_TYPES: TransitionType[] = ['cut', 'crossfade', 'dip_to_black'];
+
+// Still shots and hard cuts, as before motion existed; stories opt in to motion per request
+export const DEFAULT_MOTION_OPTIONS: Required<MotionOptions> = {
+  kenBurns: false,
+  shotTransition: 'cut',
+  sceneTransition: 'cut',
+  transitionDuration: 0.75 // used by whichever transition a story turns on
+};
+
+const MIN_TRANSITION_SEC = 0.2;
+const MAX_TRANSITION_SEC = 2;
+
+// How far presets zoom in over a shot (0.12 = 12%)
+const ZOOM_AMOUNT = 0.12;
+
+// ffmpeg xfade transition for each transition type (cuts don't use xfade)
+const XFADE_TRANSITIONS: Record<Exclude<TransitionType, 'cut'>, string> = {
+  crossfade: 'fade',
+  dip_to_black: 'fadeblack'
+};
+
+/**
+ * Camera motion and transitions for the rendered slideshow: validates the
+ * story's motion options, picks a motion preset for each shot and builds the
+ * matching ffmpeg expressions
+ */
+export class MotionService {
+  /**
+   * Validate motion options from a request body. Returns an error message, or null if valid.
+   */
+  static validateOptions(value: any): string | null {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return "motion must be an object";
+    }
+    if (value.kenBurns !== undefined && typeof value.kenBurns !== 'boolean') {
+      return "motion.kenBurns must be a boolean";
+    }
+    if (value.shotTransition !== undefined && !TRANSITION_TYPES.includes(value.shotTransition)) {
+      return `motion.shotTransition must be one of: ${TRANSITION_TYPES.join(', ')}`;
+    }
+    if (value.sceneTransition !== undefined && !TRANSITION_TYPES.includes(value.sceneTransition)) {
+      return `motion.sceneTransition must be one of: ${TRANSITION_TYPES.join(', ')}`;
+    }
+    if (value.transitionDuration !== undefined && !(
+      typeof value.transitionDuration === 'number' &&
+      value.transitionDuration >= MIN_TRANSITION_SEC &&
+      value.transitionDuration <= MAX_TRANSITION_SEC
+    )) {
+      return `motion.transitionDuration must be between ${MIN_TRANSITION_SEC} and ${MAX_TRANSITION_SEC} seconds`;
+    }
+    return null;
+  }
+
+  /**
+   * Motion options stored on a story, with defaults filled in
+   */
+  parseOptions(stored: string | null): Required<MotionOptions> {
+    if (!stored) {
+      return DEFAULT_MOTION_OPTIONS;
+    }
+    try {
+      return { ...DEFAULT_MOTION_OPTIONS, ...JSON.parse(stored) };
+    } catch {
+      return DEFAULT_MOTION_OPTIONS;
+    }
+  }
+
+  /**
+   * One preset per shot, chosen from a hash of each shot's key so a story
+   * always renders the same way, and never the same preset twice in a row
+   */
+  pickPresets(shotKeys: string[]): MotionPreset[] {
+    const presets: MotionPreset[] = [];
+
+    for (const key of shotKeys) {
+      const hash = crypto.createHash('md5').update(key).digest();
+      let index = hash.readUInt16BE(0) % MOTION_PRESETS.length;
+      if (presets.length > 0 && MOTION_PRESETS[index] === presets[presets.length - 1]) {
+        index = (index + 1) % MOTION_PRESETS.length;
+      }
+      presets.push(MOTION_PRESETS[index]!);
+    }
+
+    return presets;
+  }
+
+  /**
+   * zoompan filter that turns a single image into `frames` frames of
+   * width x height, moving according to the preset (or holding still when
+   * null). The input should be larger than the output so the motion stays smooth.
+   */
+  zoompanFilter(preset: MotionPreset | null, frames: number, width: number, height: number, fps: number): string {
+    const last = Math.max(1, frames - 1);
+    const progress = `on/${last}`;
+    const centreX = 'iw/2-(iw/zoom/2)';
+    const centreY = 'ih/2-(ih/zoom/2)';
+
+    let zoom = '1';
+    let x = centreX;
+    const y = centreY;
+
+    switch (preset) {
+      case 'zoom_in':
+        zoom = `1+${ZOOM_AMOUNT}*${progress}`;
+        break;
+      case 'zoom_out':
+        zoom = `${1 + ZOOM_AMOUNT}-${ZOOM_AMOUNT}*${progress}`;
+        break;
+      case 'pan_left':
+        zoom = `${1 + ZOOM_AMOUNT}`;
+        x = `(iw-iw/zoom)*(1-${progress})`;
+        break;
+      case 'pan_right':
+        zoom = `${1 + ZOOM_AMOUNT}`;
+        x = `(iw-iw/zoom)*${progress}`;
+        break;
+    }
+
+    return `zoompan=z='${zoom}':x='${x}':y='${y}':d=${frames}:s=${width}x${height}:fps=${fps}`;
+  }
+
+  /**
+   * ffmpeg xfade transition name, or null for a hard cut
+   */
+  xfadeTransition(type: TransitionType): string | null {
+    return type === 'cut' ? null : XFADE_TRANSITIONS[type];
+  }
+}
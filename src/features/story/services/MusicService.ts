@@ -1,47 +1,27 @@
 import prisma from "../../../lib/prisma.js";
 import axios from "axios";
 import logger from "../../../utils/logger.js";
-import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
+import storage from "../../../lib/storage/index.js";
+import { StoryMediaService } from "./StoryMediaService.js";
+
+const storyMediaService = new StoryMediaService();
 
 export class MusicService {
   private readonly ELEVENLABS_API_URL = "https://api.elevenlabs.io/v1/music";
-  private s3Client: S3Client;
-
-  constructor() {
-    this.s3Client = new S3Client({
-      endpoint: process.env.DO_SPACES_ENDPOINT!,
-      region: process.env.DO_SPACES_REGION || "sfo3",
-      credentials: {
-        accessKeyId: process.env.DO_SPACES_KEY!,
-        secretAccessKey: process.env.DO_SPACES_SECRET!,
-      },
-    });
-  }
 
-  private async uploadAudioToSpaces(audioBuffer: Buffer, musicId: string): Promise<string> {
+  private async uploadAudio(audioBuffer: Buffer, musicId: string, storyId: string): Promise<string> {
     try {
       const fileName = `music/${musicId}.mp3`;
-      
-      const uploadCommand = new PutObjectCommand({
-        Bucket: process.env.DO_SPACES_BUCKET!,
-        Key: fileName,
-        Body: audioBuffer,
-        ContentType: "audio/mpeg",
-        ACL: "public-read",
-      });
-
-      await this.s3Client.send(uploadCommand);
 
-      const baseUrl =
-        process.env.DO_SPACES_CDN_URL ||
-        `https://${process.env.DO_SPACES_BUCKET}.${process.env.DO_SPACES_REGION}.digitaloceanspaces.com`;
-      
-      const publicUrl = `${baseUrl}/${fileName}`;
-      logger.info(`Music uploaded to Spaces: ${publicUrl}`);
+      const publicUrl = await storage.put(fileName, audioBuffer, {
+        contentType: "audio/mpeg",
+        public: await storyMediaService.isPublic(storyId)
+      });
+      logger.info(`Music uploaded to storage: ${publicUrl}`);
       
       return publicUrl;
     } catch (error) {
-      logger.error(`Failed to upload music to Spaces: ${error}`);
+      logger.error(`Failed to upload music to storage: ${error}`);
       throw error;
     }
   }
@@ -159,9 +139,9 @@ export class MusicService {
       // Generate a unique ID for this music
       const musicId = `music_${storyId}_${Date.now()}`;
 
-      // Upload audio data to DigitalOcean Spaces
+      // Upload audio data to media storage
       const audioBuffer = Buffer.from(response.data);
-      const audioUrl = await this.uploadAudioToSpaces(audioBuffer, musicId);
+      const audioUrl = await this.uploadAudio(audioBuffer, musicId, storyId);
 
       // Save music record to database with audio URL
       const musicRecord = await prisma.music.create({
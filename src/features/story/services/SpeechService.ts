@@ -1,36 +1,45 @@
 import prisma from "../../../lib/prisma.js";
 import axios from "axios";
 import logger from "../../../utils/logger.js";
-import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
+import storage, { fetchMedia } from "../../../lib/storage/index.js";
 import crypto from "crypto";
 import ffmpeg from "fluent-ffmpeg";
 import fs from "fs";
 import path from "path";
 import type { EnhancedScript } from "../types/index.js";
 import { ImageService } from "./ImageService.js";
+import { StoryStatusService } from "./StoryStatusService.js";
+import { StoryMediaService } from "./StoryMediaService.js";
+import { CoverService } from "./CoverService.js";
+import { AudiogramService } from "./AudiogramService.js";
+import { LoudnessService, LOUDNESS_TARGETS } from "./LoudnessService.js";
+import { jobQueue, JobTypes } from "../../jobs/JobQueue.js";
+import type { MixJob, SceneAudioJob } from "../../jobs/types/index.js";
+import { shotPlanner, speechProvider, SyntheticSpeechProvider, TemplateShotPlanner } from "../providers/index.js";
+import type { PlannedShot, ShotPlanRequest, InputTiming } from "../providers/index.js";
 
 const imageService = new ImageService();
+const storyStatusService = new StoryStatusService();
+const storyMediaService = new StoryMediaService();
+const coverService = new CoverService();
+const audiogramService = new AudiogramService();
+const loudnessService = new LoudnessService();
+const fallbackShotPlanner = new TemplateShotPlanner();
 
-export class SpeechService {
-  private s3Client: S3Client;
-  private readonly MAX_CONCURRENT_CALLS = 10;
-  private mixingChecks = new Set<string>();
-
-  constructor() {
-    this.s3Client = new S3Client({
-      endpoint: process.env.DO_SPACES_ENDPOINT!,
-      region: process.env.DO_SPACES_REGION || "sfo3",
-      credentials: {
-        accessKeyId: process.env.DO_SPACES_KEY!,
-        secretAccessKey: process.env.DO_SPACES_SECRET!,
-      }
-    });
-  }
+const SHOT_PLAN_ATTEMPTS = 3;
+const SHOT_PLAN_RETRY_DELAY_MS = 3000; // multiplied by the attempt number
 
+export class SpeechService {
   /**
-   * Generate subtitles using ElevenLabs speech-to-text
+   * Generate subtitles using ElevenLabs speech-to-text. Falls back to word
+   * timings estimated from the scenes' input timings when transcription isn't available.
    */
-  private async generateSubtitles(audioBuffer: Buffer): Promise<any> {
+  private async generateSubtitles(audioBuffer: Buffer, segments: any[]): Promise<any> {
+    // Placeholder tones have nothing to transcribe
+    if (speechProvider instanceof SyntheticSpeechProvider) {
+      return this.estimateSubtitles(segments);
+    }
+
     try {
       const apiKey = process.env.ELEVENLABS_API_KEY;
       if (!apiKey) {
@@ -66,6 +75,13 @@ export class SpeechService {
 
     } catch (error) {
       logger.error(`Error generating subtitles: ${error}`);
+
+      const estimated = this.estimateSubtitles(segments);
+      if (estimated.words.length > 0) {
+        logger.info(`Using ${estimated.words.length} subtitle words estimated from input timings`);
+        return estimated;
+      }
+
       // Don't fail the entire process if subtitles fail
       return { 
         text: '', 
@@ -76,52 +92,180 @@ export class SpeechService {
     }
   }
 
+  /**
+   * Word timestamps for the mixed audio, spreading each input's words evenly
+   * across the span it was voiced in. Scenes are offset by the durations of
+   * the scenes before them, matching how they're concatenated.
+   */
+  private estimateSubtitles(segments: any[]): any {
+    const words: Array<{ text: string; start: number; end: number; type: 'word'; speaker_id: string }> = [];
+    let offset = 0;
+
+    for (const segment of [...segments].sort((a, b) => a.scene_number - b.scene_number)) {
+      const inputs: Array<{ text?: string; voice_id?: string }> = JSON.parse(segment.text_content || "[]");
+      const timings: InputTiming[] = segment.timings ? JSON.parse(segment.timings) : [];
+
+      for (const timing of timings) {
+        const input = inputs[timing.index];
+        const tokens = (input?.text || "").split(/\s+/).filter(Boolean);
+        const step = (timing.end - timing.start) / Math.max(tokens.length, 1);
+
+        tokens.forEach((token, i) => {
+          words.push({
+            text: token,
+            start: Math.round((offset + timing.start + i * step) * 1000) / 1000,
+            end: Math.round((offset + timing.start + (i + 1) * step) * 1000) / 1000,
+            type: 'word',
+            speaker_id: input?.voice_id || ''
+          });
+        });
+      }
+
+      offset += Number(segment.scene_duration || 0);
+    }
+
+    return {
+      text: words.map((word) => word.text).join(' '),
+      words,
+      language_code: 'en',
+      language_probability: 0
+    };
+  }
+
   async generateAudioForStory(storyId: string, scriptData: EnhancedScript, audioOnly: boolean = false): Promise<void> {
     try {
       logger.info(`Starting ${audioOnly ? 'audio-only' : 'scene-by-scene'} audio generation for story: ${storyId}`);
       logger.info(`Total scenes to process: ${scriptData.scenes.length}`);
 
-      // Process all scenes concurrently (capped by MAX_CONCURRENT_CALLS)
-      await this.processScenesWithConcurrency(storyId, scriptData, audioOnly);
+      // Create every segment up front so mixing can't start before all scenes are known
+      await prisma.audioSegment.createMany({
+        data: scriptData.scenes.map((scene: any, index) => ({
+          story_id: storyId,
+          scene_id: scene.id,
+          scene_number: index + 1,
+          text_content: JSON.stringify(scene.inputs),
+          character_count: scene.inputs.reduce((total: number, input: any) => total + (input.text?.length || 0), 0),
+          status: "pending",
+        })),
+        skipDuplicates: true,
+      });
 
-      logger.info(`Audio generation initiated for ${scriptData.scenes.length} scenes`);
+      // One durable job per scene; the queue caps concurrency and retries failures
+      for (const [index, scene] of scriptData.scenes.entries()) {
+        await jobQueue.enqueue<SceneAudioJob>(
+          JobTypes.SCENE_AUDIO,
+          { storyId, sceneId: scene.id, sceneNumber: index + 1, audioOnly },
+          { jobId: `${JobTypes.SCENE_AUDIO}:${storyId}:${scene.id}` }
+        );
+      }
+
+      logger.info(`Audio generation queued for ${scriptData.scenes.length} scenes`);
     } catch (error) {
       logger.error(`Error generating audio for story: ${error}`);
       throw error;
     }
   }
 
-  private async processScenesWithConcurrency(storyId: string, scriptData: EnhancedScript, audioOnly: boolean = false): Promise<void> {
-    let activeRequests = 0;
-    const maxConcurrent = this.MAX_CONCURRENT_CALLS;
+  /**
+   * Process a queued scene: load the scene from the stored script and generate its audio (and images)
+   */
+  async generateAudioForSceneJob(job: SceneAudioJob): Promise<void> {
+    if (await storyStatusService.isCancelled(job.storyId)) {
+      logger.info(`Story ${job.storyId} was cancelled, not starting scene ${job.sceneId}`);
+      return;
+    }
 
-    const processScene = async (scene: any, sceneIndex: number): Promise<void> => {
-      // Wait for available slot
-      while (activeRequests >= maxConcurrent) {
-        await new Promise((resolve) => setTimeout(resolve, 100));
-      }
+    const story = await prisma.story.findUnique({
+      where: { id: job.storyId },
+      select: { transcript: true }
+    });
 
-      activeRequests++;
+    if (!story?.transcript) {
+      throw new Error(`Story ${job.storyId} has no script`);
+    }
 
-      try {
-        await this.generateAudioForScene(
-          storyId,
-          scene,
-          sceneIndex + 1,
-          audioOnly ? null : scriptData.metadata.imageStyle, // No imageStyle for audio-only
-          audioOnly
-        );
-      } catch (error) {
-        logger.error(`Error processing scene ${scene.id}: ${error}`);
-        await this.updateSceneStatus(storyId, scene.id, "failed");
-      } finally {
-        activeRequests--;
-      }
-    };
+    const scriptData: EnhancedScript = JSON.parse(story.transcript);
+    const scene = scriptData.scenes.find((s) => s.id === job.sceneId);
+    if (!scene) {
+      throw new Error(`Scene ${job.sceneId} not found in script for story ${job.storyId}`);
+    }
 
-    // Process all scenes
-    const scenePromises = scriptData.scenes.map((scene, index) => processScene(scene, index));
-    await Promise.allSettled(scenePromises);
+    await this.generateAudioForScene(
+      job.storyId,
+      scene,
+      job.sceneNumber,
+      job.audioOnly ? null : scriptData.metadata.imageStyle, // No imageStyle for audio-only
+      job.audioOnly
+    );
+  }
+
+  /**
+   * Mark a scene whose job ran out of attempts as failed. Audio that already
+   * completed is kept, so retrying the scene doesn't pay for it again.
+   */
+  async markSceneFailed(storyId: string, sceneId: string): Promise<void> {
+    await prisma.audioSegment.updateMany({
+      where: {
+        story_id: storyId,
+        scene_id: sceneId,
+        status: { not: "completed" },
+      },
+      data: { status: "failed" },
+    });
+  }
+
+  /**
+   * Re-queue every scene whose audio didn't complete, keeping completed scenes.
+   * If every scene already has audio only the mix failed, so the mix is queued again.
+   * Returns the number of scenes re-queued.
+   */
+  async retryFailedAudio(storyId: string, scriptData: EnhancedScript, audioOnly: boolean): Promise<number> {
+    const segments = await prisma.audioSegment.findMany({
+      where: { story_id: storyId },
+      select: { scene_id: true, scene_number: true, status: true },
+    });
+
+    if (segments.length === 0) {
+      // Audio never started for this story
+      await this.generateAudioForStory(storyId, scriptData, audioOnly);
+      return scriptData.scenes.length;
+    }
+
+    const unfinished = segments.filter((segment) => segment.status !== "completed");
+
+    if (unfinished.length === 0) {
+      logger.info(`All scene audio exists for story ${storyId}, retrying the mix`);
+      await this.queueMix(storyId, audioOnly);
+      return 0;
+    }
+
+    await prisma.audioSegment.updateMany({
+      where: { story_id: storyId, scene_id: { in: unfinished.map((segment) => segment.scene_id) } },
+      data: { status: "pending" },
+    });
+
+    for (const segment of unfinished) {
+      await jobQueue.enqueue<SceneAudioJob>(
+        JobTypes.SCENE_AUDIO,
+        { storyId, sceneId: segment.scene_id, sceneNumber: segment.scene_number, audioOnly },
+        { jobId: `${JobTypes.SCENE_AUDIO}:${storyId}:${segment.scene_id}` }
+      );
+    }
+
+    logger.info(`Re-queued audio for ${unfinished.length} scenes of story ${storyId}`);
+    return unfinished.length;
+  }
+
+  /**
+   * Stop a cancelled story's audio: scenes not yet voiced are marked cancelled and mixing files removed
+   */
+  async cancelStoryAudio(storyId: string): Promise<void> {
+    await prisma.audioSegment.updateMany({
+      where: { story_id: storyId, status: { in: ["pending", "processing"] } },
+      data: { status: "cancelled" },
+    });
+
+    await this.cleanupTempDirectory(path.join(process.cwd(), "temp", storyId));
   }
 
   private async generateAudioForScene(
@@ -132,16 +276,12 @@ export class SpeechService {
     audioOnly: boolean = false
   ): Promise<void> {
     try {
-      const apiKey = process.env.ELEVENLABS_API_KEY;
-      if (!apiKey) {
-        throw new Error("ElevenLabs API key not configured");
-      }
-
       logger.info(`Generating audio for scene: ${scene.id} (${scene.inputs.length} inputs) - ${audioOnly ? 'audio-only' : 'video'} mode`);
 
-      // Create audio segment record
-      await prisma.audioSegment.create({
-        data: {
+      // Create audio segment record (or reuse it when a job is retried)
+      const segment = await prisma.audioSegment.upsert({
+        where: { story_id_scene_id: { story_id: storyId, scene_id: scene.id } },
+        create: {
           story_id: storyId,
           scene_id: scene.id,
           scene_number: sceneNumber,
@@ -149,44 +289,41 @@ export class SpeechService {
           character_count: scene.inputs.reduce((total: number, input: any) => total + (input.text?.length || 0), 0),
           status: "pending",
         },
+        update: {},
       });
 
-      // Call ElevenLabs API for entire scene
-      const response = await axios.post(
-        "https://api.elevenlabs.io/v1/text-to-dialogue",
-        {
-          inputs: scene.inputs.map((input: any) => ({
-            text: input.text,
-            voice_id: input.voice_id,
-          })),
-        },
-        {
-          headers: {
-            "xi-api-key": apiKey,
-            "Content-Type": "application/json",
-            Accept: "audio/mpeg",
-          },
-          responseType: "arraybuffer",
-        }
-      );
-
-      const audioBuffer = Buffer.from(response.data);
-
-      // Upload audio to Digital Ocean Spaces
-      const audioUrl = await this.uploadSceneAudio(audioBuffer, storyId, scene.id);
-
-      // Get actual audio duration using ffprobe
-      const actualDuration = await this.getAudioDuration(audioBuffer);
+      let actualDuration: number;
 
-      // Update database with audio info
-      await this.updateSceneWithAudio(storyId, scene.id, audioUrl, actualDuration);
+      if (segment.status === "completed" && segment.audio_url && segment.scene_duration != null) {
+        // A retry after the audio already landed: don't pay for TTS twice
+        actualDuration = Number(segment.scene_duration);
+        logger.info(`Scene ${scene.id} audio already generated, reusing it`);
+      } else {
+        actualDuration = await this.synthesizeSceneAudio(storyId, scene);
+      }
 
-      logger.info(`Scene audio completed: ${scene.id}, actual duration: ${actualDuration}s`);
+      // The user may have cancelled while this scene was being voiced
+      if (await storyStatusService.isCancelled(storyId)) {
+        logger.info(`Story ${storyId} was cancelled, stopping after scene ${scene.id} audio`);
+        return;
+      }
 
       // Only generate images if not audio-only mode
       if (!audioOnly && imageStyle) {
+        // A retried job only creates the shots an earlier attempt didn't get to
+        const existingImages = await prisma.image.findMany({
+          where: { story_id: storyId, scene_id: scene.id },
+          select: { shot_number: true }
+        });
+
         // Generate dynamic image shots based on actual duration
-        await this.generateDynamicImageShots(storyId, scene, actualDuration, imageStyle);
+        await this.generateDynamicImageShots(
+          storyId,
+          scene,
+          actualDuration,
+          imageStyle,
+          new Set(existingImages.map((image) => image.shot_number))
+        );
       }
 
       // Check if all scenes are complete for final mixing
@@ -197,6 +334,32 @@ export class SpeechService {
     }
   }
 
+  /**
+   * Generate, upload and record the scene's dialogue audio. Returns its duration in seconds.
+   */
+  private async synthesizeSceneAudio(storyId: string, scene: any): Promise<number> {
+    // Voice the entire scene in one call
+    const { audio: audioBuffer, timings } = await speechProvider.synthesize(
+      scene.inputs.map((input: any) => ({
+        text: input.text,
+        voice_id: input.voice_id,
+      }))
+    );
+
+    // Upload audio to media storage
+    const audioUrl = await this.uploadSceneAudio(audioBuffer, storyId, scene.id);
+
+    // Get actual audio duration using ffprobe
+    const actualDuration = await this.getAudioDuration(audioBuffer);
+
+    // Update database with audio info
+    await this.updateSceneWithAudio(storyId, scene.id, audioUrl, actualDuration, timings);
+
+    logger.info(`Scene audio completed: ${scene.id}, actual duration: ${actualDuration}s`);
+
+    return actualDuration;
+  }
+
   private logAxiosError(context: string, error: any, extra?: Record<string, any>) {
     try {
       const err: any = error;
@@ -236,12 +399,18 @@ export class SpeechService {
     storyId: string,
     scene: any,
     actualDuration: number,
-    imageStyle: string
+    imageStyle: string,
+    existingShots: Set<number> = new Set()
   ): Promise<void> {
     try {
       // Calculate number of shots needed (one every 10 seconds, minimum 1)
       const shotsNeeded = Math.max(1, Math.ceil(actualDuration / 10));
 
+      if (existingShots.size >= shotsNeeded) {
+        logger.info(`Scene ${scene.id}: all ${shotsNeeded} image shots already exist`);
+        return;
+      }
+
       logger.info(`Scene ${scene.id}: ${actualDuration}s duration requires ${shotsNeeded} image shots (10s each)`);
 
       // Calculate shot durations array (all 10s except possibly last shot)
@@ -258,7 +427,7 @@ export class SpeechService {
         }
       }
 
-      // Generate dialogue-aware shot prompts using OpenAI
+      // Generate dialogue-aware shot prompts
       const shotPrompts = await this.generateShotPrompts(
         scene.image_prompt,
         scene.inputs,
@@ -271,8 +440,14 @@ export class SpeechService {
         actualDuration
       );
 
+      // The whole scene is planned so prompts stay coherent, but existing shots are kept
+      const missingShots = shotPrompts.filter((shot) => !existingShots.has(shot.shot));
+      if (existingShots.size > 0) {
+        logger.info(`Scene ${scene.id}: creating ${missingShots.length} missing of ${shotsNeeded} image shots`);
+      }
+
       // Pass the generated prompts to ImageService
-      await imageService.generateImagesForScene(storyId, scene, actualDuration, imageStyle, shotPrompts);
+      await imageService.generateImagesForScene(storyId, scene, actualDuration, imageStyle, missingShots);
 
     } catch (error) {
       logger.error(`Error generating dynamic image shots for scene ${scene.id}: ${error}`);
@@ -280,144 +455,37 @@ export class SpeechService {
     }
   }
 
+  /**
+   * Plan the scene's shots, retrying the planner a few times before falling
+   * back to template prompts
+   */
   private async generateShotPrompts(
     sceneDescription: string,
     sceneDialogue: any[],
     shotsNeeded: number,
-    context?: {
-      setting?: { name?: string; uuid?: string; description?: string };
-      characters?: Array<{ name?: string; uuid?: string; description?: string; appearances?: number }>;
-    },
+    context?: ShotPlanRequest['context'],
     targetDurations?: number[],
     sceneDuration?: number
-  ): Promise<{ shot: number; duration: number; prompt: string }[]> {
-    try {
-      const apiKey = process.env.OPENAI_API_KEY;
-      if (!apiKey) {
-        throw new Error('OpenAI API key not configured');
-      }
-
-      logger.info(`Generating ${shotsNeeded} individual cinematic shots for scene (10s duration each)`);
-
-      // Build scene context (setting, characters, temporal anchor) to lock era and place
-      const settingName = context?.setting?.name?.trim();
-      const settingDesc = context?.setting?.description?.trim();
-      const characterNames = Array.isArray(context?.characters)
-        ? (context!.characters || []).map((c: any) => c?.name).filter(Boolean)
-        : [];
-
-      // Try to derive a temporal anchor from dialogue (e.g., "March 15, 44 BCE")
-      const allDialogueText = sceneDialogue.map((d: any) => d?.text || "").join(" \n ");
-      const dateWithEraMatch = allDialogueText.match(/\b([A-Z][a-z]+\s+\d{1,2},\s*\d{1,4}\s*(BCE|BC|CE|AD))\b/i);
-      const bareEraMatch = allDialogueText.match(/\b(\d{1,4})\s*(BCE|BC|CE|AD)\b/i);
-      const temporalAnchor = (dateWithEraMatch && dateWithEraMatch[1]) || (bareEraMatch && bareEraMatch[0]) || null;
-
-      const contextPreamble = [
-        `Setting: ${settingName || 'Unknown'}` + (settingDesc ? ` — ${settingDesc}` : ''),
-        `Characters in scene: ${characterNames.length ? characterNames.join(', ') : '—'}`,
-        `Era/Date: ${temporalAnchor || '—'}`
-      ].join('\n');
-
-      // Build dialogue context for the AI
-      const dialogueContext = sceneDialogue.map((input, index) =>
-        `${index + 1}. "${input.text}" (${input.text.length} characters)`
-      ).join('\n');
-
-      const response = await axios.post(
-        'https://api.openai.com/v1/responses',
-        {
-          model: "gpt-5-nano",
-          instructions:
-            `Scene total duration: ${sceneDuration} seconds.\n` +
-            `Shot durations (in order): [${targetDurations?.join(', ') || ''}]\n\n` +
-            `Create ${shotsNeeded} SEPARATE cinematic shots for this scene. Each shot is an individual, standalone image that will become a 10-second video.\n\n` +
-            `CRITICAL IMAGE COMPOSITION RULES:\n` +
-            `- Each shot must be a SINGLE, unified cinematic frame\n` +
-            `- NO text, titles, captions, or written words visible in the image\n` +
-            `- NO split screens, panels, montages, or multiple views in one image\n` +
-            `- NO "showing multiple angles" or "various perspectives" in one shot\n` +
-            `- Each prompt describes ONE specific camera angle/composition only\n` +
-            `- Think like a film director: each shot is one camera position filming one moment\n` +
-            `- Focus on visual storytelling through composition, lighting, and atmosphere only\n\n` +
-            `- Era & Place Lock: All shots must be faithful to the historical context. Do NOT include modern elements.\n` +
-            `- Dialogue Alignment: Each shot supports specific dialogue beats (reference line numbers)\n` +
-            `- Visual Variety: Use different camera angles (wide, medium, close-up) across shots\n` +
-            `- Durations: Each shot duration must match the provided array exactly\n` +
-            `- 10-Second Focus: Create prompts for sustained visual interest over 10 seconds\n` +
-            `- Prompt Prefix: Begin each with [Setting: <name> | Era: <value>]\n\n` +
-            `EXAMPLE GOOD PROMPTS:\n` +
-            `"Wide establishing shot of Roman forum at dawn with marble columns"\n` +
-            `"Medium shot of speaker gesturing from lectern, marble architecture behind"\n` +
-            `"Close-up of listener's thoughtful expression, soft natural lighting"\n\n` +
-            `EXAMPLE BAD PROMPTS (AVOID):\n` +
-            `"Split screen showing both speaker and audience reaction"\n` +
-            `"Montage of forum from multiple angles"\n` +
-            `"Various shots of the crowd and speaker together"\n\n` +
-            `Return as JSON with "shots" array of objects { shot, duration, prompt }.`,
-          input: `Scene Style: ${sceneDescription}\n\nContext:\n${contextPreamble}\n\nDialogue (numbered):\n${dialogueContext}`,
-          text: {
-            format: {
-              type: "json_schema",
-              name: "shot_prompts",
-              schema: {
-                type: "object",
-                properties: {
-                  shots: {
-                    type: "array",
-                    items: {
-                      type: "object",
-                      properties: {
-                        shot: { type: "number" },
-                        duration: { type: "number" },
-                        prompt: { type: "string" }
-                      },
-                      required: ["shot", "duration", "prompt"],
-                      additionalProperties: false
-                    },
-                    minItems: shotsNeeded,
-                    maxItems: shotsNeeded
-                  }
-                },
-                required: ["shots"],
-                additionalProperties: false
-              },
-              strict: true
-            }
-          }
-        },
-        {
-          headers: {
-            'Authorization': `Bearer ${apiKey}`,
-            'Content-Type': 'application/json'
-          }
-        }
-      );
+  ): Promise<PlannedShot[]> {
+    const request: ShotPlanRequest = { sceneDescription, dialogue: sceneDialogue, shotsNeeded };
+    if (context) request.context = context;
+    if (targetDurations) request.targetDurations = targetDurations;
+    if (sceneDuration !== undefined) request.sceneDuration = sceneDuration;
 
-      // Wait for the response - it takes ~20 seconds
-      await new Promise(resolve => setTimeout(resolve, 20000));
-
-      // The response should be ready now - extract the shots
-      const responseData = response.data;
-      if (responseData.output && responseData.output.length > 0) {
-        const messageOutput = responseData.output.find((output: any) => output.type === 'message');
-        if (messageOutput && messageOutput.content && messageOutput.content.length > 0) {
-          const textContent = messageOutput.content.find((content: any) => content.type === 'output_text');
-          if (textContent && textContent.text) {
-            const parsed = JSON.parse(textContent.text);
-            if (parsed.shots && Array.isArray(parsed.shots) && parsed.shots.length >= shotsNeeded) {
-              logger.info(`Successfully generated ${parsed.shots.length} individual cinematic shot prompts`);
-              return parsed.shots.slice(0, shotsNeeded);
-            }
-          }
+    for (let attempt = 1; attempt <= SHOT_PLAN_ATTEMPTS; attempt++) {
+      try {
+        return await shotPlanner.planShots(request);
+      } catch (error) {
+        logger.warn(`Shot planning attempt ${attempt}/${SHOT_PLAN_ATTEMPTS} failed: ${error}`);
+        if (attempt < SHOT_PLAN_ATTEMPTS) {
+          await new Promise(resolve => setTimeout(resolve, SHOT_PLAN_RETRY_DELAY_MS * attempt));
         }
       }
-
-      throw new Error('Could not extract shot prompts from OpenAI response');
-
-    } catch (error) {
-      logger.error(`Error generating shot prompts: ${error}`);
-      throw error;
     }
+
+    // Never leave a scene without shots: build them from the scene's own description
+    logger.warn(`Shot planning failed ${SHOT_PLAN_ATTEMPTS} times, using template shot prompts`);
+    return fallbackShotPlanner.planShots(request);
   }
 
   private async uploadSceneAudio(audioBuffer: Buffer, storyId: string, sceneId: string): Promise<string> {
@@ -430,41 +498,22 @@ export class SpeechService {
         .substring(0, 8);
       const fileName = `audio/${storyId}/${sceneId}_${timestamp}_${hash}.mp3`;
 
-      const uploadCommand = new PutObjectCommand({
-        Bucket: process.env.DO_SPACES_BUCKET!,
-        Key: fileName,
-        Body: audioBuffer,
-        ContentType: "audio/mpeg",
-        ACL: "public-read",
+      return await storage.put(fileName, audioBuffer, {
+        contentType: "audio/mpeg",
+        public: await storyMediaService.isPublic(storyId)
       });
-
-      await this.s3Client.send(uploadCommand);
-
-      const baseUrl =
-        process.env.DO_SPACES_CDN_URL ||
-        `https://${process.env.DO_SPACES_BUCKET}.${process.env.DO_SPACES_REGION}.digitaloceanspaces.com`;
-      return `${baseUrl}/${fileName}`;
     } catch (error) {
       logger.error(`Error uploading scene audio: ${error}`);
       throw error;
     }
   }
 
-  private async updateSceneStatus(storyId: string, sceneId: string, status: string): Promise<void> {
-    await prisma.audioSegment.updateMany({
-      where: {
-        story_id: storyId,
-        scene_id: sceneId,
-      },
-      data: { status },
-    });
-  }
-
   private async updateSceneWithAudio(
     storyId: string,
     sceneId: string,
     audioUrl: string,
-    duration: number
+    duration: number,
+    timings: InputTiming[]
   ): Promise<void> {
     await prisma.audioSegment.updateMany({
       where: {
@@ -474,40 +523,89 @@ export class SpeechService {
       data: {
         audio_url: audioUrl,
         scene_duration: duration,
+        timings: JSON.stringify(timings),
         status: "completed",
       },
     });
   }
 
   private async checkAndTriggerMixing(storyId: string, audioOnly: boolean = false): Promise<void> {
-    if (this.mixingChecks.has(storyId)) return;
+    // Read after this scene's own update, so the last scene to finish always sees every scene completed
+    const segments = await prisma.audioSegment.findMany({
+      where: { story_id: storyId },
+      select: { status: true },
+    });
 
-    this.mixingChecks.add(storyId);
+    if (segments.length > 0 && segments.every((segment) => segment.status === "completed")) {
+      logger.info(`All scene audio completed for story ${storyId}. Queueing the mix.`);
+      await this.queueMix(storyId, audioOnly);
+    }
+  }
 
-    try {
-      const segments = await prisma.audioSegment.findMany({
-        where: { story_id: storyId },
-        orderBy: { scene_number: "asc" },
-      });
+  /**
+   * Queue the story's mix. Scenes finishing together (in any worker) may all get
+   * here; the stable job ID keeps it to one mix job at a time.
+   * Returns the job ID, or null if a mix job already exists.
+   */
+  async queueMix(storyId: string, audioOnly: boolean): Promise<string | null> {
+    return jobQueue.enqueue<MixJob>(
+      JobTypes.MIX,
+      { storyId, audioOnly },
+      { jobId: `${JobTypes.MIX}:${storyId}` }
+    );
+  }
+
+  /**
+   * Process a queued mix. Starting it moves the story to audio_ready; a story
+   * already in audio_ready lost an earlier attempt of this job (there is only
+   * ever one), so the mix simply runs again.
+   */
+  async mixStoryAudioJob(job: MixJob): Promise<void> {
+    const { storyId, audioOnly } = job;
 
-      const completedSegments = segments.filter((segment) => segment.status === "completed");
+    if (await storyStatusService.isCancelled(storyId)) {
+      logger.info(`Story ${storyId} was cancelled, skipping the mix`);
+      return;
+    }
 
-      if (completedSegments.length === segments.length && segments.length > 0) {
-        logger.info(`All scene audio completed for story ${storyId}. Ready for mixing.`);
+    const segments = await prisma.audioSegment.findMany({
+      where: { story_id: storyId },
+      orderBy: { scene_number: "asc" },
+    });
 
-        const status = audioOnly ? "audio_ready" : "audio_ready";
-        await prisma.story.update({
-          where: { id: storyId },
-          data: { status },
-        });
+    if (segments.length === 0 || segments.some((segment) => segment.status !== "completed")) {
+      logger.info(`Story ${storyId} has scene audio still to generate, not mixing yet`);
+      return;
+    }
+
+    const claimed = await storyStatusService.claimTransition(storyId, "script_completed", "audio_ready", {
+      reason: `All ${segments.length} scene audio segments completed`,
+    });
+
+    if (!claimed) {
+      const story = await prisma.story.findUnique({
+        where: { id: storyId },
+        select: { status: true },
+      });
 
-        await this.mixAudioSegments(storyId, completedSegments as any[], audioOnly);
+      if (story?.status !== "audio_ready") {
+        logger.info(`Story ${storyId} is ${story?.status ?? "gone"}, not mixing`);
+        return;
       }
-    } catch (error) {
-      logger.error(`Error checking mixing status: ${error}`);
-    } finally {
-      this.mixingChecks.delete(storyId);
+
+      logger.info(`Resuming the interrupted mix for story ${storyId}`);
     }
+
+    await this.mixAudioSegments(storyId, segments as any[], audioOnly);
+  }
+
+  /**
+   * Record a mix that ran out of attempts, so the audio stage can be retried
+   */
+  async markMixFailed(storyId: string, error: unknown): Promise<void> {
+    await storyStatusService.transition(storyId, "audio_failed", {
+      reason: `Audio mixing failed: ${error}`,
+    });
   }
 
   private async mixAudioSegments(storyId: string, segments: any[], audioOnly: boolean = false): Promise<void> {
@@ -518,10 +616,11 @@ export class SpeechService {
 
       fs.mkdirSync(tempDir, { recursive: true });
 
+      // Scenes are generated separately and come back at different levels; even them out before joining
       const audioFiles: string[] = [];
       for (const segment of segments.sort((a, b) => a.scene_number - b.scene_number)) {
         const filePath = await this.downloadAudioSegment(segment, tempDir);
-        audioFiles.push(filePath);
+        audioFiles.push(await this.normalizeScene(segment, filePath));
       }
 
       const speechAudioPath = path.join(tempDir, "speech_audio.mp3");
@@ -529,21 +628,25 @@ export class SpeechService {
 
       // For audio-only mode, mix with music and save to audio_url
       if (audioOnly) {
-        await this.mixWithMusicAndFinalize(storyId, speechAudioPath, tempDir);
+        await this.mixWithMusicAndFinalize(storyId, speechAudioPath, tempDir, segments);
+
+        // The story is complete; an audiogram that can't be queued must not fail it
+        await audiogramService.queueIfRequested(storyId).catch((err) =>
+          logger.error(`Failed to queue audiogram for story ${storyId}: ${err}`)
+        );
       } else {
         // For video mode, just save the speech audio (existing behavior)
         const finalAudioBuffer = fs.readFileSync(speechAudioPath);
         const finalAudioUrl = await this.uploadFinalAudio(finalAudioBuffer, storyId);
 
         // Generate subtitles from the final audio
-        const subtitles = await this.generateSubtitles(finalAudioBuffer);
+        const subtitles = await this.generateSubtitles(finalAudioBuffer, segments);
 
-        await prisma.story.update({
-          where: { id: storyId },
+        await storyStatusService.transition(storyId, "audio_completed", {
+          reason: "Voice track mixed",
           data: {
             audio_url: finalAudioUrl,
             subtitles: JSON.stringify(subtitles),
-            status: "audio_completed",
           },
         });
 
@@ -557,12 +660,6 @@ export class SpeechService {
 
     } catch (error) {
       logger.error(`Error mixing audio segments: ${error}`);
-
-      await prisma.story.update({
-        where: { id: storyId },
-        data: { status: "audio_failed" },
-      });
-
       throw error;
     } finally {
       await this.cleanupTempDirectory(tempDir);
@@ -570,7 +667,7 @@ export class SpeechService {
   }
 
   // New method to mix speech with music for audio-only mode
-  private async mixWithMusicAndFinalize(storyId: string, speechAudioPath: string, tempDir: string): Promise<void> {
+  private async mixWithMusicAndFinalize(storyId: string, speechAudioPath: string, tempDir: string, segments: any[]): Promise<void> {
     try {
       // Get the music for this story
       const { MusicService } = await import("./MusicService.js");
@@ -581,18 +678,21 @@ export class SpeechService {
         logger.warn(`No music found for story ${storyId}, using speech only`);
         
         // Just use speech audio as final audio
-        const finalAudioBuffer = fs.readFileSync(speechAudioPath);
+        const finalAudioPath = path.join(tempDir, "final_audio.mp3");
+        const loudness = await this.normalizeFinalMix(speechAudioPath, finalAudioPath);
+        const finalAudioBuffer = fs.readFileSync(finalAudioPath);
         const finalAudioUrl = await this.uploadFinalAudio(finalAudioBuffer, storyId);
 
         // Generate subtitles from the final audio (optional for audio-only)
-        const subtitles = await this.generateSubtitles(finalAudioBuffer);
+        const subtitles = await this.generateSubtitles(finalAudioBuffer, segments);
+        await this.createCover(storyId);
 
-        await prisma.story.update({
-          where: { id: storyId },
+        await storyStatusService.transition(storyId, "completed", { // Audio-only stories are complete at this point
+          reason: "Audio-only story mixed without music",
           data: {
             audio_url: finalAudioUrl,
             subtitles: JSON.stringify(subtitles),
-            status: "completed", // Audio-only stories are complete at this point
+            loudness_lufs: loudness,
           },
         });
 
@@ -602,13 +702,10 @@ export class SpeechService {
 
       // Download background music
       const musicPath = path.join(tempDir, "background_music.mp3");
-      const musicResponse = await axios.get(music.audio_url, {
-        responseType: "arraybuffer",
-      });
-      fs.writeFileSync(musicPath, Buffer.from(musicResponse.data));
+      fs.writeFileSync(musicPath, await fetchMedia(music.audio_url));
 
-      // Mix speech with background music using ffmpeg
-      const finalAudioPath = path.join(tempDir, "final_mixed_audio.mp3");
+      // Mix speech with background music using ffmpeg, uncompressed until it is normalized
+      const mixedAudioPath = path.join(tempDir, "mixed_audio.wav");
       
       await new Promise<void>((resolve, reject) => {
         ffmpeg()
@@ -621,8 +718,7 @@ export class SpeechService {
           ])
           .outputOptions([
             '-map [mixed]',
-            '-c:a libmp3lame',
-            '-b:a 192k'
+            '-c:a pcm_s16le'
           ])
           .on('start', (commandLine) => {
             logger.info(`FFmpeg mixing started: ${commandLine}`);
@@ -638,22 +734,26 @@ export class SpeechService {
             logger.error(`FFmpeg mixing error: ${err.message}`);
             reject(err);
           })
-          .save(finalAudioPath);
+          .save(mixedAudioPath);
       });
 
+      const finalAudioPath = path.join(tempDir, "final_mixed_audio.mp3");
+      const loudness = await this.normalizeFinalMix(mixedAudioPath, finalAudioPath);
+
       // Upload final mixed audio
       const finalAudioBuffer = fs.readFileSync(finalAudioPath);
       const finalAudioUrl = await this.uploadFinalAudio(finalAudioBuffer, storyId);
 
       // Generate subtitles from the final audio (optional for audio-only)
-      const subtitles = await this.generateSubtitles(finalAudioBuffer);
+      const subtitles = await this.generateSubtitles(finalAudioBuffer, segments);
+      await this.createCover(storyId);
 
-      await prisma.story.update({
-        where: { id: storyId },
+      await storyStatusService.transition(storyId, "completed", { // Audio-only stories are complete at this point
+        reason: "Audio-only story mixed with music",
         data: {
           audio_url: finalAudioUrl,
           subtitles: JSON.stringify(subtitles),
-          status: "completed", // Audio-only stories are complete at this point
+          loudness_lufs: loudness,
         },
       });
 
@@ -665,16 +765,54 @@ export class SpeechService {
     }
   }
 
+  /**
+   * Draw an audio-only story's title card before it completes, so the completion
+   * message carries its image. A story without a cover still completes.
+   */
+  private async createCover(storyId: string): Promise<void> {
+    try {
+      await coverService.generateCover(storyId);
+    } catch (error) {
+      logger.error(`Failed to generate cover for story ${storyId}: ${error}`);
+    }
+  }
+
+  /**
+   * Bring a scene's voice to the podcast loudness target and record how loud it
+   * came back from generation. Returns the normalized (uncompressed) file.
+   */
+  private async normalizeScene(segment: any, filePath: string): Promise<string> {
+    const normalizedPath = filePath.replace(/\.mp3$/, '_normalized.wav');
+    const { input } = await loudnessService.normalize(filePath, normalizedPath, LOUDNESS_TARGETS.podcast, ['-c:a', 'pcm_s16le']);
+
+    await prisma.audioSegment.update({
+      where: { id: segment.id },
+      data: { loudness_lufs: loudnessService.storedLufs(input) }
+    });
+
+    return normalizedPath;
+  }
+
+  /**
+   * Normalize an audio-only story's final mix to the podcast target as an MP3.
+   * Returns its integrated loudness.
+   */
+  private async normalizeFinalMix(inputPath: string, outputPath: string): Promise<number | null> {
+    const { output } = await loudnessService.normalize(inputPath, outputPath, LOUDNESS_TARGETS.podcast, [
+      '-c:a', 'libmp3lame',
+      '-b:a', '192k'
+    ]);
+    return loudnessService.storedLufs(output);
+  }
+
   private async downloadAudioSegment(segment: any, tempDir: string): Promise<string> {
     try {
-      const response = await axios.get(segment.audio_url, {
-        responseType: "arraybuffer",
-      });
+      const audioBuffer = await fetchMedia(segment.audio_url);
 
       const fileName = `scene_${segment.scene_number}.mp3`;
       const filePath = path.join(tempDir, fileName);
 
-      fs.writeFileSync(filePath, Buffer.from(response.data));
+      fs.writeFileSync(filePath, audioBuffer);
       logger.info(`Downloaded scene audio: ${fileName}`);
 
       return filePath;
@@ -725,21 +863,11 @@ export class SpeechService {
         .substring(0, 8);
       const fileName = `audio/${storyId}/final_${timestamp}_${hash}.mp3`;
 
-      const uploadCommand = new PutObjectCommand({
-        Bucket: process.env.DO_SPACES_BUCKET!,
-        Key: fileName,
-        Body: audioBuffer,
-        ContentType: "audio/mpeg",
-        ACL: "public-read",
+      const publicUrl = await storage.put(fileName, audioBuffer, {
+        contentType: "audio/mpeg",
+        public: await storyMediaService.isPublic(storyId)
       });
 
-      await this.s3Client.send(uploadCommand);
-
-      const baseUrl =
-        process.env.DO_SPACES_CDN_URL ||
-        `https://${process.env.DO_SPACES_BUCKET}.${process.env.DO_SPACES_REGION}.digitaloceanspaces.com`;
-      const publicUrl = `${baseUrl}/${fileName}`;
-
       logger.info(`Final audio uploaded successfully: ${publicUrl}`);
       return publicUrl;
     } catch (error) {
@@ -0,0 +1,135 @@
+import prisma from "../../../lib/prisma.js";
+import storage from "../../../lib/storage/index.js";
+import type { CoverUrls, CoverVariant, StoryMedia } from "../types/index.js";
+
+// How long signed media URLs stay valid
+const MEDIA_URL_TTL_SEC = Number(process.env.MEDIA_URL_TTL_SEC) || 15 * 60;
+
+/**
+ * Access to a story's stored media. Objects are private unless the story was
+ * created as public, so clients get short-lived signed URLs from here rather
+ * than using the URLs stored on the rows.
+ */
+export class StoryMediaService {
+  /**
+   * Whether media uploaded for the story should be publicly readable
+   */
+  async isPublic(storyId: string): Promise<boolean> {
+    const story = await prisma.story.findUnique({
+      where: { id: storyId },
+      select: { public: true }
+    });
+    return !!story?.public;
+  }
+
+  /**
+   * Signed URL for a stored object. URLs not served by our storage (e.g. the
+   * Cloudflare Stream playlist) are returned unchanged.
+   */
+  async signUrl(url: string, expiresInSec: number = MEDIA_URL_TTL_SEC): Promise<string> {
+    const key = storage.keyFromUrl(url);
+    return key ? storage.signedUrl(key, expiresInSec) : url;
+  }
+
+  /**
+   * URL a client can fetch a stored object from: unchanged for public stories,
+   * whose media was uploaded with permanent URLs, signed otherwise
+   */
+  resolveUrl(url: string, isPublic: boolean): Promise<string>;
+  resolveUrl(url: string | null, isPublic: boolean): Promise<string | null>;
+  async resolveUrl(url: string | null, isPublic: boolean): Promise<string | null> {
+    if (!url || isPublic) {
+      return url;
+    }
+    return this.signUrl(url);
+  }
+
+  /**
+   * Stored cover variants (JSON) with client-fetchable URLs, or null if the
+   * story has no cover yet
+   */
+  async resolveCover(stored: string | null, isPublic: boolean): Promise<CoverUrls | null> {
+    if (!stored) {
+      return null;
+    }
+
+    const cover = {} as CoverUrls;
+    for (const [variant, url] of Object.entries(JSON.parse(stored) as CoverUrls) as [CoverVariant, string][]) {
+      cover[variant] = await this.resolveUrl(url, isPublic);
+    }
+    return cover;
+  }
+
+  /**
+   * URLs of the story's final audio, video and renditions, cover, images and music,
+   * or null if the story doesn't exist or belongs to another user
+   */
+  async getStoryMedia(userId: string, storyId: string): Promise<StoryMedia | null> {
+    const story = await prisma.story.findFirst({
+      where: { id: storyId, user_id: userId },
+      select: {
+        public: true,
+        audio_url: true,
+        video_url: true,
+        stream_url: true,
+        image_url: true,
+        cover_urls: true,
+        images: {
+          where: { status: 'completed', image_url: { not: null } },
+          orderBy: [{ scene_id: 'asc' }, { shot_number: 'asc' }],
+          select: { id: true, scene_id: true, shot_number: true, image_url: true }
+        },
+        music: {
+          where: { status: 'completed', audio_url: { not: null } },
+          orderBy: { created_at: 'asc' },
+          select: { id: true, audio_url: true }
+        },
+        renditions: {
+          orderBy: { created_at: 'asc' },
+          select: { profile: true, width: true, height: true, duration: true, video_url: true, loudness_lufs: true }
+        }
+      }
+    });
+
+    if (!story) {
+      return null;
+    }
+
+    const resolve = (url: string): Promise<string> => this.resolveUrl(url, story.public);
+
+    const [audioUrl, videoUrl, imageUrl, cover, images, music, renditions] = await Promise.all([
+      this.resolveUrl(story.audio_url, story.public),
+      this.resolveUrl(story.video_url, story.public),
+      this.resolveUrl(story.image_url, story.public),
+      this.resolveCover(story.cover_urls, story.public),
+      Promise.all(story.images.map(async image => ({
+        id: String(image.id), // BigInt is not JSON serialisable
+        scene_id: image.scene_id,
+        shot_number: image.shot_number,
+        image_url: await resolve(image.image_url!)
+      }))),
+      Promise.all(story.music.map(async track => ({
+        id: track.id,
+        audio_url: await resolve(track.audio_url!)
+      }))),
+      Promise.all(story.renditions.map(async rendition => ({
+        ...rendition,
+        video_url: await resolve(rendition.video_url)
+      })))
+    ]);
+
+    return {
+      storyId,
+      public: story.public,
+      expiresAt: story.public ? null : new Date(Date.now() + MEDIA_URL_TTL_SEC * 1000),
+      audio_url: audioUrl,
+      video_url: videoUrl,
+      stream_url: story.stream_url,
+      image_url: imageUrl,
+      cover,
+      images,
+      music,
+      renditions
+    };
+  }
+}
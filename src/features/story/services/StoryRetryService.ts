@@ -0,0 +1,249 @@
+import prisma from "../../../lib/prisma.js";
+import logger from "../../../utils/logger.js";
+import type { Story } from "@prisma/client";
+import { HttpError } from "../../../utils/httpError.js";
+import { StoryService } from "./StoryService.js";
+import { StoryStatusService } from "./StoryStatusService.js";
+import { ImageService } from "./ImageService.js";
+import { SpeechService } from "./SpeechService.js";
+import { ResponseService } from "../../response/services/ResponseService.js";
+import { VideoService } from "../../events/VideoService.js";
+import { jobQueue, JobTypes } from "../../jobs/JobQueue.js";
+import type { AnchorImagesJob, VideoJob } from "../../jobs/types/index.js";
+import type { EnhancedScript, RetryResult, RetryStage, StoryStatus } from "../types/index.js";
+
+const storyService = new StoryService();
+const storyStatusService = new StoryStatusService();
+const imageService = new ImageService();
+const speechService = new SpeechService();
+const responseService = new ResponseService();
+const videoService = new VideoService();
+
+export const RETRY_STAGES: readonly RetryStage[] = ['script', 'anchors', 'audio', 'images', 'music', 'video', 'stream'];
+
+// Statuses each stage can be retried from
+const RETRYABLE_FROM: Record<RetryStage, readonly string[]> = {
+  script: ['failed'],
+  anchors: ['script_completed', 'failed'],
+  audio: ['script_completed', 'audio_ready', 'audio_failed', 'failed'], // audio_ready only once its mix job is gone
+  images: ['script_completed', 'audio_ready', 'audio_completed', 'failed'],
+  music: ['script_completed', 'audio_ready', 'audio_completed', 'failed'],
+  video: ['failed'],
+  stream: ['do_completed', 'failed']
+};
+
+/**
+ * Re-runs only the failed part of a story's pipeline, keeping everything that already completed.
+ * Work re-enters the normal completion flow once it finishes.
+ */
+export class StoryRetryService {
+  static isRetryStage(value: string): value is RetryStage {
+    return (RETRY_STAGES as readonly string[]).includes(value);
+  }
+
+  /**
+   * Retry a stage of a story, or the earliest failed stage if none is given.
+   * Returns null if the story doesn't exist or belongs to another user.
+   */
+  async retryStory(userId: string, storyId: string, stage?: RetryStage): Promise<RetryResult | null> {
+    const story = await prisma.story.findFirst({
+      where: { id: storyId, user_id: userId }
+    });
+
+    if (!story) {
+      return null;
+    }
+
+    const target = stage ?? (await this.detectFailedStage(story));
+    if (!target) {
+      throw new HttpError(409, `Nothing to retry for story (status: ${story.status})`);
+    }
+
+    if (!RETRYABLE_FROM[target].includes(story.status)) {
+      throw new HttpError(409, `Cannot retry ${target} while story is ${story.status}`);
+    }
+
+    let retried: number;
+    switch (target) {
+      case 'script':
+        retried = await this.retryScript(userId, story);
+        break;
+      case 'anchors':
+        retried = await this.retryAnchors(story);
+        break;
+      case 'audio':
+        retried = await this.retryAudio(story);
+        break;
+      case 'images':
+        retried = await this.retryImages(story);
+        break;
+      case 'music':
+        retried = await this.retryMusic(story);
+        break;
+      case 'video':
+        retried = await this.retryVideo(story);
+        break;
+      case 'stream':
+        retried = await this.retryStream(story);
+        break;
+    }
+
+    logger.info(`Retried ${target} for story ${story.id} (${retried} item(s))`);
+    return { stage: target, retried };
+  }
+
+  /**
+   * Earliest stage with failed work, in pipeline order
+   */
+  private async detectFailedStage(story: Story): Promise<RetryStage | null> {
+    if (!story.transcript) {
+      return story.status === 'failed' ? 'script' : null;
+    }
+
+    const [failedAnchors, failedSegments, failedImages, completedMusic] = await Promise.all([
+      prisma.anchor.count({ where: { story_id: story.id, appearances: { gte: 2 }, status: 'failed' } }),
+      prisma.audioSegment.count({ where: { story_id: story.id, status: 'failed' } }),
+      prisma.image.count({ where: { story_id: story.id, status: 'failed' } }),
+      prisma.music.count({ where: { story_id: story.id, status: 'completed' } })
+    ]);
+
+    if (story.video && failedAnchors > 0) return 'anchors';
+    if (story.status === 'audio_failed' || failedSegments > 0) return 'audio';
+    if (story.status === 'audio_ready' && !(await this.isMixing(story.id))) return 'audio';
+    if (story.video && failedImages > 0) return 'images';
+    if (story.video && completedMusic === 0 && story.audio_url) return 'music';
+    if (story.status === 'failed' && story.video_url) return 'stream';
+    if (story.status === 'failed' && story.video && story.audio_url) return 'video';
+
+    return null;
+  }
+
+  private async retryScript(userId: string, story: Story): Promise<number> {
+    if (story.transcript) {
+      throw new HttpError(409, 'Script already generated');
+    }
+
+    const params = await storyService.getGenerationRequest(userId, story.id);
+    await storyService.requestScript(story.id, params!);
+    return 1;
+  }
+
+  private async retryAnchors(story: Story): Promise<number> {
+    if (!story.video) {
+      throw new HttpError(409, 'Audio-only stories have no anchor images');
+    }
+
+    const { count } = await prisma.anchor.updateMany({
+      where: { story_id: story.id, appearances: { gte: 2 }, status: 'failed' },
+      data: { status: 'pending' }
+    });
+
+    if (count === 0) {
+      throw new HttpError(409, 'No failed anchor images to retry');
+    }
+
+    await this.resumeFrom(story, 'script_completed', 'anchors');
+
+    const scriptData: EnhancedScript = JSON.parse(story.transcript!);
+    await jobQueue.enqueue<AnchorImagesJob>(
+      JobTypes.ANCHOR_IMAGES,
+      { storyId: story.id, imageStyle: scriptData.metadata.imageStyle },
+      { jobId: `${JobTypes.ANCHOR_IMAGES}:${story.id}` }
+    );
+
+    return count;
+  }
+
+  private async retryAudio(story: Story): Promise<number> {
+    if (!story.transcript) {
+      throw new HttpError(409, 'Story has no script to generate audio from');
+    }
+
+    if (story.status === 'audio_ready') {
+      // A mix still queued or running will finish (or fail) on its own
+      if (await this.isMixing(story.id)) {
+        throw new HttpError(409, 'Audio is still being mixed');
+      }
+
+      await storyStatusService.transition(story.id, 'script_completed', {
+        reason: 'Retrying a stalled mix'
+      });
+    } else {
+      await this.resumeFrom(story, 'script_completed', 'audio');
+    }
+
+    return speechService.retryFailedAudio(story.id, JSON.parse(story.transcript), !story.video);
+  }
+
+  private async retryImages(story: Story): Promise<number> {
+    if (!story.video) {
+      throw new HttpError(409, 'Audio-only stories have no images');
+    }
+
+    const failed = await prisma.image.count({ where: { story_id: story.id, status: 'failed' } });
+    if (failed === 0) {
+      throw new HttpError(409, 'No failed images to retry');
+    }
+
+    await this.resumeFrom(story, story.audio_url ? 'audio_completed' : 'script_completed', 'images');
+
+    return imageService.retryFailedImages(story.id);
+  }
+
+  private async retryMusic(story: Story): Promise<number> {
+    const completed = await prisma.music.count({ where: { story_id: story.id, status: 'completed' } });
+    if (completed > 0) {
+      throw new HttpError(409, 'Music already generated');
+    }
+
+    await this.resumeFrom(story, story.audio_url ? 'audio_completed' : 'script_completed', 'music');
+
+    await responseService.queueMusicGeneration(story);
+    return 1;
+  }
+
+  private async retryVideo(story: Story): Promise<number> {
+    if (!story.video || !story.audio_url) {
+      throw new HttpError(409, 'Story has no mixed audio to render a video from');
+    }
+
+    await this.resumeFrom(story, 'rendering', 'video');
+
+    await jobQueue.enqueue<VideoJob>(
+      JobTypes.VIDEO,
+      { storyId: story.id },
+      { jobId: `${JobTypes.VIDEO}:${story.id}` }
+    );
+    return 1;
+  }
+
+  private async retryStream(story: Story): Promise<number> {
+    if (!story.video_url) {
+      throw new HttpError(409, 'Story has no rendered video to upload');
+    }
+
+    await this.resumeFrom(story, 'do_completed', 'stream');
+
+    // Upload errors are logged by VideoService; the reconciler picks the story up again if it stays stuck
+    await videoService.uploadToCloudflareStream(story.video_url, story.id);
+    return 1;
+  }
+
+  private async isMixing(storyId: string): Promise<boolean> {
+    return jobQueue.has(`${JobTypes.MIX}:${storyId}`);
+  }
+
+  /**
+   * Move a failed story back to the status its retried stage runs in
+   */
+  private async resumeFrom(story: Story, to: StoryStatus, stage: RetryStage): Promise<void> {
+    if (story.status !== 'failed' && story.status !== 'audio_failed') {
+      return;
+    }
+
+    await storyStatusService.transition(story.id, to, {
+      reason: `Retrying ${stage}`,
+      data: { error: null }
+    });
+  }
+}
@@ -1,7 +1,30 @@
 import prisma from "../../../lib/prisma.js";
 import axios from "axios";
 import logger from "../../../utils/logger.js";
-import type { StoryRequest, OpenAIResponse } from "../types/index.js";
+import { validateJsonSchema } from "../../../utils/jsonSchema.js";
+import { HttpError } from "../../../utils/httpError.js";
+import { ResponseService } from "../../response/services/ResponseService.js";
+import { StoryStatusService, StoryStatusTransitionError } from "./StoryStatusService.js";
+import { SpeechService } from "./SpeechService.js";
+import { VideoService } from "../../events/VideoService.js";
+import { ImageService } from "./ImageService.js";
+import { StoryCompletionService } from "../../events/StoryCompletionService.js";
+import { StoryMediaService } from "./StoryMediaService.js";
+import { scriptProvider } from "../providers/index.js";
+import { jobQueue, JobTypes } from "../../jobs/JobQueue.js";
+import type { MediaPipelineJob } from "../../jobs/types/index.js";
+import type { StoryGenerationRequest, StoryListFilters, StoryListResult, ScriptPatch } from "../types/index.js";
+
+const responseService = new ResponseService();
+const storyMediaService = new StoryMediaService();
+const storyStatusService = new StoryStatusService();
+const speechService = new SpeechService();
+const videoService = new VideoService();
+const imageService = new ImageService();
+const storyCompletionService = new StoryCompletionService();
+
+// Story statuses in which a single shot can be replaced (not while a render is in flight)
+const SHOT_EDITABLE_STATUSES = ['script_completed', 'audio_ready', 'audio_completed', 'do_completed', 'completed', 'failed'];
 
 export class StoryService {
 
@@ -29,20 +52,20 @@ export class StoryService {
     return `${basePrompt}, ${styleDesc}, ${toneDesc}`;
   }
 
-  private buildSystemPrompt(params: StoryRequest & { imageStyle?: string }): string {
+  private buildSystemPrompt(params: StoryGenerationRequest): string {
     return `You are a skilled scriptwriter. Create the podcast script as requested, then convert the dialogue into the specified scene format. Each scene represents a cohesive segment of the podcast with its own visual setting and can contain multiple dialogue segments from the same or different speakers.
     
 Track all named entities (characters, objects, specific locations) throughout the script. Assign each a unique identifier and count their appearances across scenes.`;
   }
 
-  private buildAudioOnlySystemPrompt(params: StoryRequest): string {
+  private buildAudioOnlySystemPrompt(params: StoryGenerationRequest): string {
     return `You are a skilled podcast scriptwriter. Create an engaging ${params.duration}-minute ${params.style} style podcast script with a ${params.tone} tone about: ${params.story}.
 
 Focus purely on audio content - compelling dialogue, sound design cues, and narrative flow. No visual elements needed.`;
   }
 
 
-private buildUserPrompt(params: StoryRequest & { imageStyle?: string }): string {
+private buildUserPrompt(params: StoryGenerationRequest): string {
     // Handle voice assignment properly
     let speakerInfo: string;
     if (params.speakers === 'dual' && params.voices.length >= 2) {
@@ -143,7 +166,7 @@ Return as JSON with the exact structure: title, totalDuration, estimatedWordsPer
 Focus on suspense, narrative flow, and respectful fact-grounded storytelling using original fictional characters.`;
   }
 
-  private buildAudioOnlyUserPrompt(params: StoryRequest): string {
+  private buildAudioOnlyUserPrompt(params: StoryGenerationRequest): string {
     // Handle voice assignment properly
     let speakerInfo: string;
     if (params.speakers === 'dual' && params.voices.length >= 2) {
@@ -373,99 +396,88 @@ Focus on audio storytelling, narrative flow, and engaging content.`;
     };
   }
 
-  async generateStory(userId: string, params: StoryRequest & { video: boolean; imageStyle?: string }): Promise<string> {
-    try {
-      const apiKey = process.env.OPENAI_API_KEY;
-      if (!apiKey) {
-        throw new Error('OpenAI API key is not configured');
-      }
+  /**
+   * Ask the script provider for the story's script and move the story to processing.
+   * Returns the provider's response ID.
+   */
+  async requestScript(storyId: string, params: StoryGenerationRequest): Promise<string> {
+    // 1. Build prompts and schema based on video flag
+    const systemPrompt = params.video 
+      ? this.buildSystemPrompt(params)
+      : this.buildAudioOnlySystemPrompt(params);
+
+    const userPrompt = params.video
+      ? this.buildUserPrompt(params)
+      : this.buildAudioOnlyUserPrompt(params);
+
+    const schema = params.video 
+      ? this.getVideoSchema()
+      : this.getAudioOnlySchema();
+
+    // 2. Ask the script provider
+    const scriptResponse = await scriptProvider.requestScript({ params, systemPrompt, userPrompt, schema });
+
+    // 3. Save response_id and update status
+    await Promise.all([
+      storyStatusService.transition(storyId, 'processing', {
+        reason: 'Script generation requested',
+        data: { response_id: scriptResponse.id }
+      }),
+      prisma.response.create({
+        data: {
+          response_id: scriptResponse.id,
+          type: 'script'
+        }
+      })
+    ]);
+
+    // Providers that answer synchronously won't send a webhook, so settle the response now
+    if (scriptResponse.status === 'completed') {
+      responseService.reconcileResponse(scriptResponse.id)
+        .catch((err) => logger.error(`Failed to process script ${scriptResponse.id} for story ${storyId}: ${err}`));
+    }
+
+    return scriptResponse.id;
+  }
 
+  async generateStory(
+    userId: string,
+    params: StoryGenerationRequest,
+    options: { sourceStoryId?: string } = {}
+  ): Promise<string> {
+    try {
       // 1. Create story record with video flag
       const story = await prisma.story.create({
         data: {
           user_id: userId,
+          story: params.story,
           style: params.style,
           speakers: params.speakers,
           voices: JSON.stringify(params.voices),
           tone: params.tone,
           duration: params.duration,
           video: params.video,
-          status: 'pending'
-        }
-      });
-
-      // 2. Build prompts based on video flag
-      const systemPrompt = params.video 
-        ? this.buildSystemPrompt(params)
-        : this.buildAudioOnlySystemPrompt(params);
-
-      const userPrompt = params.video
-        ? this.buildUserPrompt(params)
-        : this.buildAudioOnlyUserPrompt(params);
-
-      // 3. Get schema based on video flag
-      const schema = params.video 
-        ? this.getVideoSchema()
-        : this.getAudioOnlySchema();
-
-      // 4. Call OpenAI API with appropriate configuration
-      logger.info(`Calling OpenAI API for ${params.video ? 'video' : 'audio-only'} script generation...`);
-      
-      const response = await axios.post(
-        'https://api.openai.com/v1/responses',
-        {
-          model: "gpt-5-2025-08-07",
-          input: [
-            {
-              role: "system",
-              content: systemPrompt
-            },
-            {
-              role: "user", 
-              content: userPrompt
-            }
-          ],
-          text: {
-            format: {
-              type: "json_schema",
-              name: "podcast_script",
-              schema: schema,
-              strict: true
-            }
-          },
-          background: true,
-          tools: [
-            { type: "web_search_preview" }
-          ]
-        },
-        {
-          headers: {
-            'Authorization': `Bearer ${apiKey}`,
-            'Content-Type': 'application/json'
+          image_style: params.imageStyle,
+          request: JSON.stringify(params),
+          review_script: !!params.reviewScript,
+          public: !!params.public,
+          caption_options: params.captions ? JSON.stringify(params.captions) : null,
+          motion_options: params.motion ? JSON.stringify(params.motion) : null,
+          render_profiles: params.renditions ? JSON.stringify(params.renditions) : null,
+          highlight_count: params.highlights ?? 0,
+          audiogram_status: params.audiogram ? 'pending' : null,
+          source_story_id: options.sourceStoryId ?? null,
+          status: 'pending',
+          statusHistory: {
+            create: { to_status: 'pending', reason: 'Story created' }
           }
         }
-      );
-
-      const openaiResponse: OpenAIResponse = response.data;
+      });
 
-      // 5. Save response_id and update status
-      await Promise.all([
-        prisma.story.update({
-          where: { id: story.id },
-          data: { 
-            response_id: openaiResponse.id,
-            status: 'processing'
-          }
-        }),
-        prisma.response.create({
-          data: {
-            response_id: openaiResponse.id,
-            type: 'script'
-          }
-        })
-      ]);
+      // 2. Request the script
+      const responseId = await this.requestScript(story.id, params);
 
-      logger.info(`Story created: ${story.id}, Response ID: ${openaiResponse.id}, Mode: ${params.video ? 'video' : 'audio-only'}`);
+      logger.info(`Story created: ${story.id}, Response ID: ${responseId}, Mode: ${params.video ? 'video' : 'audio-only'}`);
       return story.id;
     } catch (error) {
       if (axios.isAxiosError(error)) {
@@ -476,4 +488,472 @@ Focus on audio storytelling, narrative flow, and engaging content.`;
       throw new Error('Failed to create story');
     }
   }
+
+  /**
+   * Apply edits to a script that is waiting for review.
+   * The merged script must still satisfy the structured-output schema used to generate it.
+   */
+  async updateScript(userId: string, storyId: string, patch: ScriptPatch): Promise<Record<string, any>> {
+    const story = await this.getStoryAwaitingReview(userId, storyId);
+    const scriptData = JSON.parse(story.transcript!);
+
+    if (patch.title !== undefined) {
+      scriptData.title = patch.title;
+    }
+
+    for (const scenePatch of patch.scenes || []) {
+      const scene = scriptData.scenes.find((s: any) => s.id === scenePatch.id);
+      if (!scene) {
+        throw new HttpError(400, `Scene not found in script: ${scenePatch.id}`);
+      }
+      Object.assign(scene, scenePatch);
+
+      // Keep word counts in line with edited dialogue
+      if (scenePatch.inputs !== undefined && Array.isArray(scene.inputs)) {
+        scene.wordCount = this.countWords(scene.inputs);
+      }
+    }
+
+    if (scriptData.metadata && Array.isArray(scriptData.scenes)) {
+      scriptData.metadata.totalScenes = scriptData.scenes.length;
+      scriptData.metadata.totalWords = scriptData.scenes.reduce((sum: number, s: any) => sum + (s.wordCount || 0), 0);
+    }
+
+    const schema = story.video ? this.getVideoSchema() : this.getAudioOnlySchema();
+    const errors = validateJsonSchema(schema, scriptData);
+    if (errors.length > 0) {
+      throw new HttpError(400, 'Script does not match the expected format', errors);
+    }
+
+    await prisma.story.update({
+      where: { id: story.id },
+      data: {
+        title: scriptData.title,
+        transcript: JSON.stringify(scriptData)
+      }
+    });
+
+    logger.info(`Script updated during review for story ${story.id}`);
+    return scriptData;
+  }
+
+  /**
+   * Approve a reviewed script and continue the media pipeline (anchors, music, audio)
+   */
+  async approveScript(userId: string, storyId: string): Promise<void> {
+    const story = await this.getStoryAwaitingReview(userId, storyId);
+
+    // Claim the approval atomically so concurrent requests can't both start the pipeline
+    const { count } = await prisma.story.updateMany({
+      where: {
+        id: story.id,
+        user_id: userId,
+        review_script: true,
+        script_approved_at: null,
+        status: 'script_completed'
+      },
+      data: { script_approved_at: new Date() }
+    });
+
+    if (count !== 1) {
+      throw new HttpError(409, 'Script has already been approved');
+    }
+
+    logger.info(`Script approved for story ${story.id}, continuing pipeline`);
+
+    await jobQueue.enqueue<MediaPipelineJob>(
+      JobTypes.MEDIA_PIPELINE,
+      { storyId: story.id },
+      { jobId: `${JobTypes.MEDIA_PIPELINE}:${story.id}` }
+    );
+  }
+
+  /**
+   * Stop a story that is still being generated. Outstanding OpenAI responses are cancelled,
+   * unstarted scenes and shots are dropped and a running render is aborted.
+   * Returns false if the story doesn't exist or belongs to another user.
+   */
+  async cancelStory(userId: string, storyId: string): Promise<boolean> {
+    const story = await prisma.story.findFirst({
+      where: { id: storyId, user_id: userId },
+      select: { id: true, status: true, response_id: true }
+    });
+
+    if (!story) {
+      return false;
+    }
+
+    if (story.status === 'cancelled') {
+      return true;
+    }
+
+    try {
+      await storyStatusService.transition(story.id, 'cancelled', { reason: 'Cancelled by user' });
+    } catch (error) {
+      if (error instanceof StoryStatusTransitionError) {
+        throw new HttpError(409, `Story can no longer be cancelled (status: ${error.from})`);
+      }
+      throw error;
+    }
+
+    // Background responses still running at the script provider and OpenAI
+    const [anchors, images] = await Promise.all([
+      prisma.anchor.findMany({
+        where: { story_id: story.id, status: 'processing', openai_response_id: { not: null } },
+        select: { openai_response_id: true }
+      }),
+      prisma.image.findMany({
+        where: { story_id: story.id, status: 'processing', openai_response_id: { not: null } },
+        select: { openai_response_id: true }
+      })
+    ]);
+
+    const scriptResponseId = story.status === 'processing' ? story.response_id : null;
+    const responseIds = [
+      ...anchors.map((anchor) => anchor.openai_response_id!),
+      ...images.map((image) => image.openai_response_id!)
+    ];
+
+    await prisma.$transaction([
+      prisma.anchor.updateMany({
+        where: { story_id: story.id, status: { in: ['pending', 'processing'] } },
+        data: { status: 'cancelled' }
+      }),
+      prisma.image.updateMany({
+        where: { story_id: story.id, status: { in: ['pending', 'processing'] } },
+        data: { status: 'cancelled' }
+      })
+    ]);
+
+    const results = await Promise.allSettled([
+      ...(scriptResponseId ? [scriptProvider.cancelScript(scriptResponseId)] : []),
+      ...responseIds.map((responseId) => responseService.cancelOpenAIResponse(responseId))
+    ]);
+    const failedCancels = results.filter((result) => result.status === 'rejected').length;
+    if (failedCancels > 0) {
+      logger.warn(`Story ${story.id}: ${failedCancels}/${results.length} background responses could not be cancelled`);
+    }
+
+    await speechService.cancelStoryAudio(story.id);
+    await videoService.cancelRender(story.id);
+
+    logger.info(`Story ${story.id} cancelled (${results.length} background responses cancelled)`);
+    return true;
+  }
+
+  /**
+   * Generate a new image for one shot of a video story, optionally from an edited prompt.
+   * The video is re-rendered once the new image lands.
+   */
+  async regenerateShot(
+    userId: string,
+    storyId: string,
+    sceneId: string,
+    shotNumber: number,
+    imagePrompt?: string
+  ): Promise<void> {
+    const { story, image, scene } = await this.getShotForEdit(userId, storyId, sceneId, shotNumber);
+
+    const scriptData = JSON.parse(story.transcript!);
+    const imageStyle = scriptData.metadata?.imageStyle || story.image_style || '';
+
+    await imageService.regenerateShotImage(image, scene, imageStyle, imagePrompt);
+  }
+
+  /**
+   * Replace one shot with an uploaded image and re-render the video (other shots are left as they are)
+   */
+  async replaceShotImage(
+    userId: string,
+    storyId: string,
+    sceneId: string,
+    shotNumber: number,
+    fileBuffer: Buffer
+  ): Promise<string> {
+    const { image } = await this.getShotForEdit(userId, storyId, sceneId, shotNumber);
+
+    const imageUrl = await imageService.replaceShotImage(image, fileBuffer);
+
+    // Already-rendered stories re-render; otherwise this may be the shot the story was waiting on
+    const rerendering = await storyCompletionService.requestRerender(storyId, 'Shot image uploaded');
+    if (!rerendering) {
+      await storyCompletionService.checkStoryCompletion(storyId);
+    }
+
+    return imageUrl;
+  }
+
+  /**
+   * Look up a shot the user may edit: the story must be theirs, have a script, and not be mid-render
+   */
+  private async getShotForEdit(userId: string, storyId: string, sceneId: string, shotNumber: number) {
+    const story = await prisma.story.findFirst({
+      where: { id: storyId, user_id: userId }
+    });
+
+    if (!story) {
+      throw new HttpError(404, 'Story not found or access denied');
+    }
+
+    if (!story.video || !story.transcript) {
+      throw new HttpError(409, 'Story has no shots');
+    }
+
+    if (!SHOT_EDITABLE_STATUSES.includes(story.status)) {
+      throw new HttpError(409, `Shots can't be changed while story is ${story.status}`);
+    }
+
+    const image = await prisma.image.findUnique({
+      where: { story_id_scene_id_shot_number: { story_id: storyId, scene_id: sceneId, shot_number: shotNumber } }
+    });
+
+    if (!image) {
+      throw new HttpError(404, 'Shot not found');
+    }
+
+    if (image.status === 'processing') {
+      throw new HttpError(409, 'Shot image is still being generated');
+    }
+
+    const scene = JSON.parse(story.transcript).scenes?.find((s: any) => s.id === sceneId);
+
+    return { story, image, scene };
+  }
+
+  private async getStoryAwaitingReview(userId: string, storyId: string) {
+    const story = await prisma.story.findFirst({
+      where: { id: storyId, user_id: userId }
+    });
+
+    if (!story) {
+      throw new HttpError(404, 'Story not found or access denied');
+    }
+
+    if (!story.review_script) {
+      throw new HttpError(409, 'Story was not created with script review enabled');
+    }
+
+    if (story.script_approved_at) {
+      throw new HttpError(409, 'Script has already been approved');
+    }
+
+    if (story.status !== 'script_completed' || !story.transcript) {
+      throw new HttpError(409, `Script is not ready for review (status: ${story.status})`);
+    }
+
+    return story;
+  }
+
+  private countWords(inputs: Array<{ text?: string }>): number {
+    return inputs.reduce((total, input) => total + (input.text?.trim().split(/\s+/).filter(Boolean).length || 0), 0);
+  }
+
+  /**
+   * Get the generation inputs a user's story was created with.
+   * Stories created before the full request was persisted are rebuilt from their columns.
+   */
+  async getGenerationRequest(userId: string, storyId: string): Promise<StoryGenerationRequest | null> {
+    const story = await prisma.story.findFirst({
+      where: { id: storyId, user_id: userId }
+    });
+
+    if (!story) {
+      return null;
+    }
+
+    const stored = this.parseJson(story.request);
+    if (stored) {
+      return stored as StoryGenerationRequest;
+    }
+
+    return {
+      story: story.story ?? '',
+      style: story.style as StoryGenerationRequest['style'],
+      speakers: story.speakers as StoryGenerationRequest['speakers'],
+      voices: this.parseJson(story.voices) ?? [],
+      tone: story.tone,
+      duration: story.duration,
+      imageStyle: story.image_style as StoryGenerationRequest['imageStyle'],
+      video: story.video
+    };
+  }
+
+  /**
+   * List a user's stories, newest first, using cursor pagination
+   */
+  async listStories(userId: string, filters: StoryListFilters): Promise<StoryListResult> {
+    const createdAt: { gte?: Date; lte?: Date } = {};
+    if (filters.from) createdAt.gte = filters.from;
+    if (filters.to) createdAt.lte = filters.to;
+
+    const stories = await prisma.story.findMany({
+      where: {
+        user_id: userId,
+        ...(filters.status ? { status: filters.status } : {}),
+        ...(filters.video !== undefined ? { video: filters.video } : {}),
+        ...(filters.from || filters.to ? { created_at: createdAt } : {})
+      },
+      orderBy: [{ created_at: 'desc' }, { id: 'desc' }],
+      // Fetch one extra row to know whether another page exists
+      take: filters.limit + 1,
+      ...(filters.cursor ? { cursor: { id: filters.cursor }, skip: 1 } : {}),
+      select: {
+        id: true,
+        title: true,
+        style: true,
+        tone: true,
+        duration: true,
+        video: true,
+        status: true,
+        public: true,
+        image_url: true,
+        audio_url: true,
+        video_url: true,
+        stream_url: true,
+        created_at: true,
+        updated_at: true
+      }
+    });
+
+    const hasMore = stories.length > filters.limit;
+    const page = hasMore ? stories.slice(0, filters.limit) : stories;
+
+    return {
+      stories: await Promise.all(page.map(async ({ public: isPublic, ...story }) => ({
+        ...story,
+        image_url: await storyMediaService.resolveUrl(story.image_url, isPublic),
+        audio_url: await storyMediaService.resolveUrl(story.audio_url, isPublic),
+        video_url: await storyMediaService.resolveUrl(story.video_url, isPublic)
+      }))),
+      nextCursor: hasMore ? page[page.length - 1]!.id : null
+    };
+  }
+
+  /**
+   * Get a single story owned by the user with all generated assets.
+   * JSON text columns are parsed so clients don't have to.
+   */
+  async getStoryDetail(userId: string, storyId: string): Promise<Record<string, any> | null> {
+    const story = await prisma.story.findFirst({
+      where: { id: storyId, user_id: userId },
+      include: {
+        anchors: { orderBy: [{ type: 'asc' }, { name: 'asc' }] },
+        images: {
+          orderBy: [{ scene_id: 'asc' }, { shot_number: 'asc' }],
+          include: { versions: { orderBy: { created_at: 'desc' } } }
+        },
+        audioSegments: { orderBy: { scene_number: 'asc' } },
+        music: { orderBy: { created_at: 'asc' } },
+        statusHistory: { orderBy: { created_at: 'asc' } },
+        renditions: { orderBy: { created_at: 'asc' } },
+        highlights: { orderBy: { clip_number: 'asc' } }
+      }
+    });
+
+    if (!story) {
+      return null;
+    }
+
+    const { user_id, response_id, anchors, images, audioSegments, music, statusHistory, renditions, highlights, ...fields } = story;
+
+    // Private stories' media is only readable through signed URLs
+    const resolve = (url: string | null) => storyMediaService.resolveUrl(url, story.public);
+
+    return {
+      ...fields,
+      audio_url: await resolve(story.audio_url),
+      video_url: await resolve(story.video_url),
+      image_url: await resolve(story.image_url),
+      voices: this.parseJson(story.voices),
+      request: this.parseJson(story.request),
+      transcript: this.parseJson(story.transcript),
+      subtitles: this.parseJson(story.subtitles),
+      caption_options: this.parseJson(story.caption_options),
+      motion_options: this.parseJson(story.motion_options),
+      render_profiles: this.parseJson(story.render_profiles),
+      cover_image_id: story.cover_image_id != null ? String(story.cover_image_id) : null,
+      cover_urls: await storyMediaService.resolveCover(story.cover_urls, story.public),
+      anchors: anchors.map(anchor => ({
+        id: anchor.id,
+        anchor_uuid: anchor.anchor_uuid,
+        type: anchor.type,
+        name: anchor.name,
+        description: anchor.description,
+        appearances: anchor.appearances,
+        status: anchor.status
+      })),
+      images: await Promise.all(images.map(async image => ({
+        id: String(image.id), // BigInt is not JSON serialisable
+        scene_id: image.scene_id,
+        shot_number: image.shot_number,
+        duration: image.duration,
+        image_prompt: image.image_prompt,
+        image_url: await resolve(image.image_url),
+        status: image.status,
+        source: image.source,
+        versions: await Promise.all(image.versions.map(async version => ({
+          id: String(version.id),
+          image_url: await resolve(version.image_url),
+          image_prompt: version.image_prompt,
+          source: version.source,
+          created_at: version.created_at
+        })))
+      }))),
+      audioSegments: await Promise.all(audioSegments.map(async segment => ({
+        id: segment.id,
+        scene_id: segment.scene_id,
+        scene_number: segment.scene_number,
+        scene_duration: segment.scene_duration != null ? Number(segment.scene_duration) : null,
+        inputs: this.parseJson(segment.text_content),
+        character_count: segment.character_count,
+        audio_url: await resolve(segment.audio_url),
+        loudness_lufs: segment.loudness_lufs,
+        status: segment.status
+      }))),
+      music: await Promise.all(music.map(async track => ({
+        id: track.id,
+        prompt: track.prompt,
+        duration_ms: track.duration_ms,
+        status: track.status,
+        audio_url: await resolve(track.audio_url)
+      }))),
+      renditions: await Promise.all(renditions.map(async rendition => ({
+        profile: rendition.profile,
+        width: rendition.width,
+        height: rendition.height,
+        duration: rendition.duration,
+        video_url: await resolve(rendition.video_url),
+        loudness_lufs: rendition.loudness_lufs
+      }))),
+      highlights: await Promise.all(highlights.map(async highlight => ({
+        id: highlight.id,
+        clip_number: highlight.clip_number,
+        title: highlight.title,
+        start_sec: highlight.start_sec,
+        end_sec: highlight.end_sec,
+        source: highlight.source,
+        duration: highlight.duration,
+        video_url: await resolve(highlight.video_url),
+        loudness_lufs: highlight.loudness_lufs,
+        status: highlight.status,
+        error: highlight.error
+      }))),
+      statusHistory: statusHistory.map(entry => ({
+        from: entry.from_status,
+        to: entry.to_status,
+        reason: entry.reason,
+        at: entry.created_at
+      }))
+    };
+  }
+
+  private parseJson(value: string | null): any {
+    if (!value) return null;
+    try {
+      return JSON.parse(value);
+    } catch {
+      logger.warn(`Failed to parse stored JSON value`);
+      return null;
+    }
+  }
 }
\ No newline at end of file
@@ -0,0 +1,180 @@
+import prisma from "../../../lib/prisma.js";
+import logger from "../../../utils/logger.js";
+import type { StoryStatus } from "../types/index.js";
+
+export const STORY_STATUSES: readonly StoryStatus[] = [
+  'pending',
+  'processing',
+  'script_completed',
+  'audio_ready',
+  'audio_completed',
+  'audio_failed',
+  'rendering',
+  'do_completed',
+  'completed',
+  'failed',
+  'cancelled'
+];
+
+// Allowed next statuses for each status
+const TRANSITIONS: Record<StoryStatus, readonly StoryStatus[]> = {
+  pending: ['processing', 'failed', 'cancelled'],
+  processing: ['script_completed', 'failed', 'cancelled'],
+  script_completed: ['audio_ready', 'failed', 'cancelled'],
+  audio_ready: ['audio_completed', 'completed', 'audio_failed', 'script_completed', 'failed', 'cancelled'], // audio-only stories complete after mixing; back to script_completed to retry a stalled mix
+  audio_completed: ['rendering', 'failed', 'cancelled'],
+  audio_failed: ['script_completed'], // retrying audio
+  rendering: ['do_completed', 'failed', 'cancelled'],
+  do_completed: ['completed', 'rendering', 'failed', 'cancelled'],
+  completed: ['rendering'], // re-render after a shot changes
+  failed: ['processing', 'script_completed', 'audio_completed', 'rendering', 'do_completed'], // retrying a stage resumes from it
+  cancelled: []
+};
+
+export class StoryStatusTransitionError extends Error {
+  constructor(
+    public readonly storyId: string,
+    public readonly from: string,
+    public readonly to: StoryStatus
+  ) {
+    super(`Illegal status transition for story ${storyId}: ${from} -> ${to}`);
+    this.name = 'StoryStatusTransitionError';
+  }
+}
+
+/**
+ * Thrown by a stage that notices the story was cancelled mid-way
+ */
+export class StoryCancelledError extends Error {
+  constructor(public readonly storyId: string) {
+    super(`Story ${storyId} was cancelled`);
+    this.name = 'StoryCancelledError';
+  }
+}
+
+export class StoryStatusService {
+  static isStoryStatus(value: string): value is StoryStatus {
+    return (STORY_STATUSES as readonly string[]).includes(value);
+  }
+
+  static canTransition(from: string, to: StoryStatus): boolean {
+    return StoryStatusService.isStoryStatus(from) && TRANSITIONS[from].includes(to);
+  }
+
+  /**
+   * Move a story to a new status, recording the transition in its history.
+   * Any extra story fields in `data` are written in the same update.
+   * Transitioning to the current status is a no-op (apart from writing `data`).
+   * Throws StoryStatusTransitionError for transitions the state machine doesn't allow.
+   */
+  async transition(
+    storyId: string,
+    to: StoryStatus,
+    options: { reason?: string; data?: Record<string, any> } = {}
+  ): Promise<void> {
+    await prisma.$transaction(async (tx) => {
+      const story = await tx.story.findUnique({
+        where: { id: storyId },
+        select: { status: true }
+      });
+
+      if (!story) {
+        throw new Error(`Story not found: ${storyId}`);
+      }
+
+      if (story.status === to) {
+        if (options.data) {
+          await tx.story.update({ where: { id: storyId }, data: options.data });
+        }
+        return;
+      }
+
+      if (!StoryStatusService.canTransition(story.status, to)) {
+        throw new StoryStatusTransitionError(storyId, story.status, to);
+      }
+
+      // Compare-and-set so a concurrent transition can't be silently overwritten
+      const updated = await tx.story.updateMany({
+        where: { id: storyId, status: story.status },
+        data: { ...options.data, status: to }
+      });
+
+      if (updated.count === 0) {
+        throw new Error(`Story ${storyId} status changed concurrently, expected ${story.status}`);
+      }
+
+      await tx.storyStatusHistory.create({
+        data: {
+          story_id: storyId,
+          from_status: story.status,
+          to_status: to,
+          reason: options.reason ?? null
+        }
+      });
+    });
+
+    logger.info(`Story ${storyId} status -> ${to}${options.reason ? ` (${options.reason})` : ''}`);
+  }
+
+  /**
+   * Move the story to `to` only if it is still in `from`, recording the transition.
+   * Returns false without writing anything when it isn't, so concurrent callers
+   * (in any process) can use it to claim a stage exactly once.
+   */
+  async claimTransition(
+    storyId: string,
+    from: StoryStatus,
+    to: StoryStatus,
+    options: { reason?: string; data?: Record<string, any> } = {}
+  ): Promise<boolean> {
+    if (!StoryStatusService.canTransition(from, to)) {
+      throw new StoryStatusTransitionError(storyId, from, to);
+    }
+
+    const claimed = await prisma.$transaction(async (tx) => {
+      const updated = await tx.story.updateMany({
+        where: { id: storyId, status: from },
+        data: { ...options.data, status: to }
+      });
+
+      if (updated.count === 0) {
+        return false;
+      }
+
+      await tx.storyStatusHistory.create({
+        data: {
+          story_id: storyId,
+          from_status: from,
+          to_status: to,
+          reason: options.reason ?? null
+        }
+      });
+      return true;
+    });
+
+    if (claimed) {
+      logger.info(`Story ${storyId} status -> ${to}${options.reason ? ` (${options.reason})` : ''}`);
+    }
+    return claimed;
+  }
+
+  /**
+   * Whether the user cancelled the story. Stages check this before spending credits.
+   */
+  async isCancelled(storyId: string): Promise<boolean> {
+    const story = await prisma.story.findUnique({
+      where: { id: storyId },
+      select: { status: true }
+    });
+    return story?.status === 'cancelled';
+  }
+
+  /**
+   * Throw StoryCancelledError if the user cancelled the story
+   */
+  async assertNotCancelled(storyId: string): Promise<void> {
+    if (await this.isCancelled(storyId)) {
+      throw new StoryCancelledError(storyId);
+    }
+  }
+}
@@ -0,0 +1,258 @@
+import axios from "axios";
+import prisma from "../../../lib/prisma.js";
+import logger from "../../../utils/logger.js";
+import { HttpError } from "../../../utils/httpError.js";
+import { jobQueue, JobTypes } from "../../jobs/JobQueue.js";
+import type { CaptionJob } from "../../jobs/types/index.js";
+import type { StreamCaption, StreamCaptionStatus } from "../types/index.js";
+
+export const SUPPORTED_CAPTION_LANGUAGES = ['cs', 'nl', 'en', 'fr', 'de', 'it', 'ja', 'ko', 'pl', 'pt', 'ru', 'es'];
+
+const POLL_INTERVAL = 5000; // 5 seconds
+const MAX_POLL_ATTEMPTS = 60; // 5 minutes of polling per job attempt
+
+// Cloudflare error code returned when the language already has a caption
+const EXISTING_CAPTION_ERROR = 10005;
+
+// Postgres NOTIFY channel the WebSocket service listens on
+const CAPTION_CHANNEL = 'captions';
+
+const CAPTION_SELECT = {
+  id: true,
+  language: true,
+  status: true,
+  error: true,
+  created_at: true,
+  updated_at: true
+} as const;
+
+/**
+ * Generates captions for a story's Cloudflare Stream video. Requests return
+ * straight away with a caption row in 'processing'; a caption job polls
+ * Cloudflare in the background, records the outcome and notifies WebSocket
+ * clients watching the story.
+ */
+export class StreamCaptionService {
+  /**
+   * Start generating captions in a language. If generation is already running
+   * for that language, the existing caption job is returned.
+   */
+  async requestCaption(userId: string, storyId: string, language: string): Promise<StreamCaption> {
+    const cloudflareId = await this.getCloudflareId(userId, storyId);
+    if (!cloudflareId) {
+      throw new HttpError(400, "Video not yet uploaded to Cloudflare Stream");
+    }
+
+    const existing = await prisma.caption.findUnique({
+      where: { story_id_language: { story_id: storyId, language } },
+      select: CAPTION_SELECT
+    });
+    if (existing?.status === 'processing') {
+      logger.info(`Captions for story ${storyId} in ${language} already in progress (${existing.id})`);
+      return existing as StreamCaption;
+    }
+
+    const result = await this.cloudflareRequest('post', `/stream/${cloudflareId}/captions/${language}/generate`);
+
+    if (!result.success && result.errors?.[0]?.code === EXISTING_CAPTION_ERROR) {
+      const message = result.messages?.[0]?.message;
+      if (message && message.includes("existing caption")) {
+        throw new HttpError(
+          409,
+          `Caption for language '${language}' already exists. Delete it first with DELETE /story/captions/${storyId}/${language}.`,
+          { language }
+        );
+      }
+    }
+
+    if (!result.success) {
+      throw new HttpError(502, "Failed to initiate caption generation", result.errors);
+    }
+
+    const caption = await prisma.caption.upsert({
+      where: { story_id_language: { story_id: storyId, language } },
+      create: { story_id: storyId, language, status: 'processing' },
+      update: { status: 'processing', error: null },
+      select: CAPTION_SELECT
+    });
+
+    await jobQueue.enqueue<CaptionJob>(
+      JobTypes.CAPTION,
+      { captionId: caption.id },
+      { jobId: `caption:${caption.id}` }
+    );
+
+    logger.info(`Caption generation started for story ${storyId} in ${language} (${caption.id})`);
+    return caption as StreamCaption;
+  }
+
+  /**
+   * Captions requested for a story, or null if the story doesn't exist or
+   * belongs to another user
+   */
+  async listCaptions(userId: string, storyId: string): Promise<StreamCaption[] | null> {
+    const story = await prisma.story.findFirst({
+      where: { id: storyId, user_id: userId },
+      select: {
+        captions: {
+          orderBy: { language: 'asc' },
+          select: CAPTION_SELECT
+        }
+      }
+    });
+
+    return story ? story.captions as StreamCaption[] : null;
+  }
+
+  /**
+   * Remove a language's caption from Cloudflare Stream and forget it, so it
+   * can be generated again
+   */
+  async deleteCaption(userId: string, storyId: string, language: string): Promise<void> {
+    const story = await prisma.story.findFirst({
+      where: { id: storyId, user_id: userId },
+      select: { cloudflare_id: true }
+    });
+    if (!story) {
+      throw new HttpError(404, "Story not found or access denied");
+    }
+
+    const caption = await prisma.caption.findUnique({
+      where: { story_id_language: { story_id: storyId, language } },
+      select: { id: true }
+    });
+
+    let deletedRemote = false;
+    if (story.cloudflare_id) {
+      const result = await this.cloudflareRequest('delete', `/stream/${story.cloudflare_id}/captions/${language}`);
+      deletedRemote = !!result.success;
+      if (!result.success && !caption) {
+        throw new HttpError(404, "Caption not found", result.errors);
+      }
+    }
+
+    if (!caption && !deletedRemote) {
+      throw new HttpError(404, "Caption not found");
+    }
+
+    // A running caption job stops once its row is gone
+    await prisma.caption.deleteMany({ where: { story_id: storyId, language } });
+    logger.info(`Deleted captions for story ${storyId} in ${language}`);
+  }
+
+  /**
+   * Caption job handler: poll Cloudflare until the caption is ready or fails.
+   * Throws if it is still in progress after MAX_POLL_ATTEMPTS so the queue
+   * retries with backoff.
+   */
+  async pollCaption(captionId: string): Promise<void> {
+    const caption = await prisma.caption.findUnique({
+      where: { id: captionId },
+      select: { status: true, language: true, story: { select: { cloudflare_id: true } } }
+    });
+
+    if (!caption || caption.status !== 'processing') {
+      logger.info(`Caption ${captionId} no longer processing, skipping`);
+      return;
+    }
+    if (!caption.story.cloudflare_id) {
+      await this.finishCaption(captionId, 'failed', 'Story has no Cloudflare Stream video');
+      return;
+    }
+
+    for (let attempt = 0; attempt < MAX_POLL_ATTEMPTS; attempt++) {
+      const result = await this.cloudflareRequest('get', `/stream/${caption.story.cloudflare_id}/captions`);
+
+      if (result.success) {
+        const remote = result.result?.find((cap: any) => cap.language === caption.language);
+
+        if (remote?.status === 'ready') {
+          logger.info(`Captions ready for ${caption.story.cloudflare_id} in ${caption.language}`);
+          await this.finishCaption(captionId, 'ready');
+          return;
+        } else if (remote?.status === 'error') {
+          logger.error(`Caption generation failed for ${caption.story.cloudflare_id} in ${caption.language}`);
+          await this.finishCaption(captionId, 'failed', 'Cloudflare caption generation failed');
+          return;
+        }
+      }
+
+      // Wait before next poll
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
+
+      const current = await prisma.caption.findUnique({ where: { id: captionId }, select: { status: true } });
+      if (current?.status !== 'processing') {
+        logger.info(`Caption ${captionId} was deleted or replaced, stopping poll`);
+        return;
+      }
+    }
+
+    throw new Error(`Caption ${captionId} still in progress after ${MAX_POLL_ATTEMPTS} polls`);
+  }
+
+  /**
+   * Record the outcome of a caption job and notify clients watching the story
+   */
+  async finishCaption(captionId: string, status: StreamCaptionStatus, error: string | null = null): Promise<void> {
+    const updated = await prisma.caption.updateMany({
+      where: { id: captionId, status: 'processing' },
+      data: { status, error }
+    });
+    if (updated.count === 0) {
+      return;
+    }
+
+    const caption = await prisma.caption.findUnique({
+      where: { id: captionId },
+      select: { story_id: true, language: true }
+    });
+    if (!caption) {
+      return;
+    }
+
+    try {
+      const payload = JSON.stringify({ storyId: caption.story_id, id: captionId, language: caption.language, status, error });
+      await prisma.$executeRaw`SELECT pg_notify(${CAPTION_CHANNEL}, ${payload})`;
+    } catch (notifyError) {
+      logger.error(`Failed to notify caption update for ${captionId}: ${notifyError}`);
+    }
+  }
+
+  private async getCloudflareId(userId: string, storyId: string): Promise<string | null> {
+    const story = await prisma.story.findFirst({
+      where: { id: storyId, user_id: userId },
+      select: { cloudflare_id: true }
+    });
+    if (!story) {
+      throw new HttpError(404, "Story not found or access denied");
+    }
+    return story.cloudflare_id;
+  }
+
+  /**
+   * Call the Cloudflare Stream API. Error responses are returned rather than
+   * thrown so callers can inspect Cloudflare's error codes.
+   */
+  private async cloudflareRequest(method: 'get' | 'post' | 'delete', path: string): Promise<any> {
+    const accountId = process.env.CLOUDFLARE_ACCOUNT_ID;
+    const token = process.env.CLOUDFLARE_TOKEN;
+
+    if (!accountId || !token) {
+      throw new Error('Cloudflare credentials not configured');
+    }
+
+    const response = await axios.request({
+      method,
+      url: `https://api.cloudflare.com/client/v4/accounts/${accountId}${path}`,
+      data: method === 'post' ? {} : undefined,
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json'
+      },
+      validateStatus: () => true // Accept any status code to handle errors
+    });
+
+    logger.info(`Cloudflare ${method.toUpperCase()} ${path}: ${response.status}`);
+    return response.data ?? {};
+  }
+}
@@ -8,6 +8,156 @@ export interface StoryRequest {
   imageStyle: 'realistic' | 'comic' | 'cartoon' | 'drawing' | 'watercolor' | 'noir' | 'sketch';
 }
 
+// Full set of generation inputs, persisted on the story as JSON so it can be
+// regenerated later. New generation options should be added here.
+export interface StoryGenerationRequest extends Omit<StoryRequest, 'imageStyle'> {
+  imageStyle: StoryRequest['imageStyle'] | null;
+  video: boolean;
+  reviewScript?: boolean; // Stop at script_completed until the script is approved
+  public?: boolean; // Store media publicly instead of behind signed URLs
+  captions?: CaptionOptions; // Captions in the rendered video; off when omitted
+  motion?: MotionOptions; // Shot motion and transitions in the rendered video; still shots and hard cuts when omitted
+  renditions?: RenderProfileName[]; // Formats to render, the first is the main video; landscape_1080p when omitted
+  highlights?: number; // Highlight clips to cut after rendering; none when omitted
+  audiogram?: boolean; // Audio-only stories: also render an audiogram video of the final mix
+}
+
+// Named output formats for the rendered video
+export type RenderProfileName = 'landscape_1080p' | 'vertical_1080p' | 'square_1080p' | 'landscape_4k';
+
+// How captions are added to the rendered video
+export type CaptionMode = 'off' | 'burned' | 'soft';
+export type CaptionPosition = 'bottom' | 'middle' | 'top';
+
+export interface CaptionOptions {
+  mode: CaptionMode;
+  maxWordsPerLine?: number;
+  // Styling, burned-in captions only
+  font?: string;
+  fontSize?: number; // in pixels at 1080p
+  position?: CaptionPosition;
+}
+
+// Camera motion on each shot and transitions between shots in the rendered video
+export type MotionPreset = 'zoom_in' | 'zoom_out' | 'pan_left' | 'pan_right';
+export type TransitionType = 'cut' | 'crossfade' | 'dip_to_black';
+
+export interface MotionOptions {
+  kenBurns?: boolean; // Slow zoom or pan on every shot, varied from shot to shot
+  shotTransition?: TransitionType; // Between shots of the same scene
+  sceneTransition?: TransitionType; // Between the last shot of a scene and the first of the next
+  transitionDuration?: number; // in seconds
+}
+
+export type CaptionFormat = 'srt' | 'vtt' | 'ass';
+
+// How words are grouped into caption cues
+export interface CaptionCueOptions {
+  maxCharsPerLine?: number;
+  maxLinesPerCue?: number;
+  maxWordsPerLine?: number;
+  maxCueDurationSec?: number;
+  offsetSec?: number; // Shift applied to every cue
+}
+
+// A caption shown from start to end (seconds), one entry per line
+export interface CaptionCue {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+// Edits to a script awaiting review. Scenes are matched by id and merged.
+export interface ScriptPatch {
+  title?: string;
+  scenes?: Array<{ id: string; [key: string]: any }>;
+}
+
+// Story lifecycle status. Allowed transitions are enforced by StoryStatusService.
+export type StoryStatus =
+  | 'pending'          // story row created
+  | 'processing'       // script requested from OpenAI
+  | 'script_completed' // script stored; anchors, music and audio are generated from here
+  | 'audio_ready'      // all scene audio generated, mixing in progress
+  | 'audio_completed'  // final voice track mixed (video mode)
+  | 'audio_failed'     // mixing failed
+  | 'rendering'        // all assets ready, video render queued
+  | 'do_completed'     // video rendered and uploaded to storage, waiting on Cloudflare Stream
+  | 'completed'        // final state
+  | 'failed'           // unrecoverable pipeline failure
+  | 'cancelled';       // stopped by the user
+
+// Signed (or, for public stories, permanent) URLs of a story's media
+export interface StoryMedia {
+  storyId: string;
+  public: boolean;
+  expiresAt: Date | null; // null when the URLs don't expire
+  audio_url: string | null;
+  video_url: string | null;
+  stream_url: string | null; // HLS playlist from Cloudflare Stream, not signed
+  image_url: string | null;
+  cover: CoverUrls | null;
+  images: Array<{ id: string; scene_id: string; shot_number: number; image_url: string }>;
+  music: Array<{ id: string; audio_url: string }>;
+  renditions: StoryRendition[];
+}
+
+export type CoverVariant = 'landscape' | 'square' | 'podcast';
+export type CoverUrls = Record<CoverVariant, string>;
+
+// A story's cover and where it came from
+export interface StoryCover {
+  image_id: string | null; // Shot the cover was cut from; null for a generated title card
+  image_url: string;       // The landscape variant, also stored as the story's image_url
+  variants: CoverUrls;
+}
+
+// A rendered video file in one render profile
+export interface StoryRendition {
+  profile: string;
+  width: number;
+  height: number;
+  duration: number; // seconds
+  video_url: string;
+  loudness_lufs: number | null; // integrated loudness of the audio
+}
+
+export type AudiogramStatus = 'pending' | 'rendering' | 'completed' | 'failed';
+
+// EBU R128 loudness: integrated loudness in LUFS, true peak in dBTP, loudness range in LU
+export interface LoudnessTarget {
+  integrated: number;
+  truePeak: number;
+  range: number;
+}
+
+export interface LoudnessMeasurement extends LoudnessTarget {
+  threshold: number; // Gating threshold of the measurement, needed for the second pass
+}
+
+// A highlight clip listed under its story
+export interface StoryHighlight {
+  id: string;
+  clip_number: number;
+  title: string;
+  start_sec: number;
+  end_sec: number;
+  source: string;
+  duration: number | null;
+  video_url: string | null;
+  loudness_lufs: number | null;
+  status: string;
+  error: string | null;
+}
+
+// Pipeline stages that can be retried individually
+export type RetryStage = 'script' | 'anchors' | 'audio' | 'images' | 'music' | 'video' | 'stream';
+
+export interface RetryResult {
+  stage: RetryStage;
+  retried: number; // rows (or steps) re-run
+}
+
 export interface OpenAIResponse {
   id: string;
   object: string;
@@ -88,7 +238,7 @@ export interface OpenAIResponseData {
     result?: string; // The base64 image data
     [key: string]: any;
   }>;
-  error?: string;
+  error?: { code?: string; message?: string; [key: string]: any } | null;
   [key: string]: any;
 }
 
@@ -133,4 +283,44 @@ export interface MusicRecord {
   audio_url?: string;
   created_at: Date;
   updated_at: Date;
-}
\ No newline at end of file
+}
+// Cloudflare Stream caption generation for one language
+export type StreamCaptionStatus = 'processing' | 'ready' | 'failed';
+
+export interface StreamCaption {
+  id: string; // Caption job ID returned when generation is requested
+  language: string;
+  status: StreamCaptionStatus;
+  error: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Story listing/detail interfaces
+export interface StoryListFilters {
+  limit: number;
+  cursor?: string;
+  status?: StoryStatus;
+  video?: boolean;
+  from?: Date;
+  to?: Date;
+}
+
+export interface StoryListResult {
+  stories: Array<{
+    id: string;
+    title: string | null;
+    style: string;
+    tone: string;
+    duration: string;
+    video: boolean;
+    status: string;
+    image_url: string | null;
+    audio_url: string | null;
+    video_url: string | null;
+    stream_url: string | null;
+    created_at: Date;
+    updated_at: Date;
+  }>;
+  nextCursor: string | null;
+}
@@ -7,8 +7,11 @@ import logger from '../../../utils/logger.js';
 import url from 'url';
 import { Client as PgClient } from 'pg';
 import type { Notification } from 'pg';
+import { StoryMediaService } from '../../story/services/StoryMediaService.js';
 import type { JwtPayload } from '../../../middleware/auth.js';
 
+const storyMediaService = new StoryMediaService();
+
 interface AuthenticatedWebSocket extends WebSocket {
   userId?: string;
   storyId?: string;
@@ -142,6 +145,7 @@ export class WebSocketService {
     });
     this.pgClient.connect();
     this.pgClient.query('LISTEN completed');
+    this.pgClient.query('LISTEN captions');
 
     this.pgClient.on('notification', async (msg: Notification) => {
       if (msg.channel === 'completed') {
@@ -155,8 +159,10 @@ export class WebSocketService {
               type: 'completed',
               data: {
                 title: story.title || 'Untitled Story',
-                video_url: story.video_url,
-                image_url: story.image_url,
+                // Private stories' media is only readable through signed URLs
+                video_url: await storyMediaService.resolveUrl(story.video_url, story.public),
+                stream_url: story.stream_url,
+                image_url: await storyMediaService.resolveUrl(story.image_url, story.public),
                 created_at: story.created_at,
                 duration: story.duration || '0'
               }
@@ -165,6 +171,15 @@ export class WebSocketService {
         } catch (error) {
           logger.error(`Error handling completed notification: ${error}`);
         }
+      } else if (msg.channel === 'captions') {
+        // Payload is written by StreamCaptionService when a caption job finishes
+        try {
+          const { storyId, ...caption } = JSON.parse(msg.payload!);
+          logger.info(`Received NOTIFY 'captions' for story ${storyId}: ${caption.language} ${caption.status}`);
+          this.notifyClients(storyId, { type: 'caption', storyId, data: caption });
+        } catch (error) {
+          logger.error(`Error handling captions notification: ${error}`);
+        }
       }
     });
   }
@@ -2,15 +2,23 @@
 export interface StoryCompletedData {
   title: string;
   video_url: string | null;
+  stream_url: string | null; // HLS playlist from Cloudflare Stream
   image_url: string | null;
   created_at: Date;
   duration: string;
 }
 
+export interface CaptionUpdateData {
+  id: string;
+  language: string;
+  status: string;
+  error: string | null;
+}
+
 export interface WebSocketMessage {
-  type: 'connected' | 'status' | 'completed' | 'error';
+  type: 'connected' | 'status' | 'completed' | 'caption' | 'error';
   storyId?: string;
   status?: string;
   message?: string;
-  data?: StoryCompletedData;
+  data?: StoryCompletedData | CaptionUpdateData;
 }
\ No newline at end of file
@@ -0,0 +1,98 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import type { RequestHandler } from "express";
+import type { PutOptions, StorageProvider } from "./types.js";
+
+/**
+ * Stores objects in a local directory, served by the app itself under /media
+ * (see app.ts). Meant for development boxes and on-prem deployments without Spaces.
+ *
+ * There are no per-object ACLs on disk, so every request must carry an HMAC
+ * signature of the key: public objects get a signature without an expiry baked
+ * into the URL returned by put(), private ones only get it from signedUrl().
+ */
+export class LocalStorageProvider implements StorageProvider {
+  readonly rootDir: string;
+  private baseUrl: string;
+  private signingSecret: string;
+
+  constructor() {
+    this.rootDir = path.resolve(process.env.LOCAL_STORAGE_DIR || path.join(process.cwd(), "storage"));
+    this.baseUrl = (
+      process.env.LOCAL_STORAGE_BASE_URL || `http://localhost:${process.env.PORT || 3000}/media`
+    ).replace(/\/+$/, "");
+
+    // An empty key would let anyone forge signatures for private objects
+    const signingSecret = process.env.MEDIA_SIGNING_SECRET || process.env.JWT_SECRET;
+    if (!signingSecret) {
+      throw new Error("MEDIA_SIGNING_SECRET or JWT_SECRET must be set to use local storage");
+    }
+    this.signingSecret = signingSecret;
+  }
+
+  async put(key: string, body: Buffer, options: PutOptions): Promise<string> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, body);
+    return options.public ? `${this.url(key)}?signature=${this.sign(key, "")}` : this.url(key);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return fs.promises.readFile(this.resolve(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  url(key: string): string {
+    return `${this.baseUrl}/${key}`;
+  }
+
+  async signedUrl(key: string, expiresInSec: number): Promise<string> {
+    const expires = String(Math.floor(Date.now() / 1000) + expiresInSec);
+    return `${this.url(key)}?expires=${expires}&signature=${this.sign(key, expires)}`;
+  }
+
+  keyFromUrl(url: string): string | null {
+    const prefix = `${this.baseUrl}/`;
+    return url.startsWith(prefix) ? decodeURIComponent(url.slice(prefix.length).split("?")[0]!) : null;
+  }
+
+  /**
+   * Middleware for the /media route that rejects requests without a valid,
+   * unexpired signature for the requested key
+   */
+  verifyRequest: RequestHandler = (req, res, next) => {
+    const key = decodeURIComponent(req.path.replace(/^\/+/, ""));
+    const expires = typeof req.query.expires === "string" ? req.query.expires : "";
+    const signature = typeof req.query.signature === "string" ? req.query.signature : "";
+
+    const expected = Buffer.from(this.sign(key, expires));
+    const given = Buffer.from(signature);
+    const valid = given.length === expected.length && crypto.timingSafeEqual(given, expected);
+    const expired = expires !== "" && Number(expires) * 1000 < Date.now();
+
+    if (!valid || expired) {
+      res.status(403).json({ error: "Invalid or expired media URL" });
+      return;
+    }
+    next();
+  };
+
+  private sign(key: string, expires: string): string {
+    return crypto.createHmac("sha256", this.signingSecret).update(`${key}:${expires}`).digest("hex");
+  }
+
+  /**
+   * Map a key to a path inside rootDir, rejecting keys that would escape it
+   */
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
@@ -0,0 +1,73 @@
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import type { PutOptions, StorageProvider } from "./types.js";
+
+/**
+ * S3-compatible object storage (DigitalOcean Spaces by default)
+ */
+export class S3StorageProvider implements StorageProvider {
+  private s3Client: S3Client;
+  private bucket: string;
+  private baseUrl: string;
+
+  constructor() {
+    this.s3Client = new S3Client({
+      endpoint: process.env.DO_SPACES_ENDPOINT!,
+      region: process.env.DO_SPACES_REGION || "sfo3",
+      credentials: {
+        accessKeyId: process.env.DO_SPACES_KEY!,
+        secretAccessKey: process.env.DO_SPACES_SECRET!,
+      },
+    });
+    this.bucket = process.env.DO_SPACES_BUCKET!;
+    this.baseUrl =
+      process.env.DO_SPACES_CDN_URL ||
+      `https://${process.env.DO_SPACES_BUCKET}.${process.env.DO_SPACES_REGION}.digitaloceanspaces.com`;
+  }
+
+  async put(key: string, body: Buffer, options: PutOptions): Promise<string> {
+    await this.s3Client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: body,
+      ContentType: options.contentType,
+      ACL: options.public ? "public-read" : "private",
+    }));
+    return this.url(key);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const response = await this.s3Client.send(new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+    }));
+    if (!response.Body) {
+      throw new Error(`Empty object: ${key}`);
+    }
+    return Buffer.from(await response.Body.transformToByteArray());
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.s3Client.send(new DeleteObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+    }));
+  }
+
+  url(key: string): string {
+    return `${this.baseUrl}/${key}`;
+  }
+
+  async signedUrl(key: string, expiresInSec: number): Promise<string> {
+    return getSignedUrl(
+      this.s3Client,
+      new GetObjectCommand({ Bucket: this.bucket, Key: key }),
+      { expiresIn: expiresInSec }
+    );
+  }
+
+  keyFromUrl(url: string): string | null {
+    const prefix = `${this.baseUrl}/`;
+    return url.startsWith(prefix) ? decodeURIComponent(url.slice(prefix.length).split("?")[0]!) : null;
+  }
+}
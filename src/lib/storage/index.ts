@@ -0,0 +1,27 @@
+import axios from "axios";
+import { S3StorageProvider } from "./S3StorageProvider.js";
+import { LocalStorageProvider } from "./LocalStorageProvider.js";
+import type { StorageProvider } from "./types.js";
+
+export type { StorageProvider, PutOptions } from "./types.js";
+export { S3StorageProvider, LocalStorageProvider };
+
+// STORAGE_DRIVER=local keeps media on disk instead of Spaces
+const storage: StorageProvider =
+  process.env.STORAGE_DRIVER === "local" ? new LocalStorageProvider() : new S3StorageProvider();
+
+/**
+ * Download a media file by URL. Objects held by the storage provider are read
+ * directly; anything else (e.g. a third-party URL) is fetched over HTTP.
+ */
+export async function fetchMedia(url: string): Promise<Buffer> {
+  const key = storage.keyFromUrl(url);
+  if (key) {
+    return storage.get(key);
+  }
+
+  const response = await axios.get(url, { responseType: "arraybuffer" });
+  return Buffer.from(response.data);
+}
+
+export default storage;
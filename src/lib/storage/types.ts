@@ -0,0 +1,22 @@
+export interface PutOptions {
+  contentType: string;
+  /** Make the object readable by anyone with its URL. Objects are private by default. */
+  public?: boolean;
+}
+
+/**
+ * Where generated media (images, audio, music, video) is stored.
+ * Keys are slash-separated paths such as `images/<storyId>/<file>.jpg`.
+ */
+export interface StorageProvider {
+  /** Store an object and return its URL */
+  put(key: string, body: Buffer, options: PutOptions): Promise<string>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+  /** URL the object is served from */
+  url(key: string): string;
+  /** Short-lived URL that grants read access to a private object */
+  signedUrl(key: string, expiresInSec: number): Promise<string>;
+  /** Key of an object from its URL, or null if the URL isn't served by this provider */
+  keyFromUrl(url: string): string | null;
+}
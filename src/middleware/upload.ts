@@ -0,0 +1,39 @@
+import type { Request, Response, NextFunction } from "express";
+import multer from "multer";
+
+const MAX_IMAGE_UPLOAD_BYTES = 20 * 1024 * 1024;
+const ALLOWED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/avif", "image/tiff"];
+
+// Kept in memory: uploads go straight through sharp to storage
+const imageUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_IMAGE_UPLOAD_BYTES, files: 1 },
+  fileFilter: (req, file, cb) => {
+    if (!ALLOWED_IMAGE_TYPES.includes(file.mimetype)) {
+      cb(new Error(`Unsupported image type: ${file.mimetype}`));
+      return;
+    }
+    cb(null, true);
+  }
+}).single("image");
+
+/**
+ * Parse a multipart request carrying a single image in the `image` field into req.file
+ */
+export function uploadImage(req: Request, res: Response, next: NextFunction) {
+  imageUpload(req, res, (err: unknown) => {
+    if (err instanceof multer.MulterError) {
+      const message = err.code === "LIMIT_FILE_SIZE"
+        ? `Image exceeds ${MAX_IMAGE_UPLOAD_BYTES / (1024 * 1024)}MB limit`
+        : err.message;
+      return res.status(400).json({ error: message });
+    }
+    if (err) {
+      return res.status(400).json({ error: err instanceof Error ? err.message : "Invalid upload" });
+    }
+    if (!req.file) {
+      return res.status(400).json({ error: "An image file is required in the 'image' field" });
+    }
+    next();
+  });
+}
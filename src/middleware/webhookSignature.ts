@@ -0,0 +1,108 @@
+import type { Request, Response, NextFunction } from "express";
+import crypto from "crypto";
+import logger from "../utils/logger.js";
+
+// Reject deliveries whose signed timestamp is further than this from now (replay protection)
+const TIMESTAMP_TOLERANCE_SEC = 5 * 60;
+
+/**
+ * Verify OpenAI webhooks (Standard Webhooks scheme): HMAC-SHA256 over
+ * "{webhook-id}.{webhook-timestamp}.{raw body}" keyed with the base64 part of the
+ * `whsec_` secret, compared against each "v1,<base64>" entry in webhook-signature.
+ */
+export function verifyOpenAIWebhook(req: Request, res: Response, next: NextFunction) {
+  const secret = process.env.OPENAI_WEBHOOK_SECRET;
+  if (!secret) {
+    logger.error("OPENAI_WEBHOOK_SECRET is not configured, rejecting webhook");
+    return res.status(401).json({ error: "Webhook verification not configured" });
+  }
+
+  const webhookId = req.header("webhook-id");
+  const timestamp = req.header("webhook-timestamp");
+  const signatureHeader = req.header("webhook-signature");
+
+  if (!webhookId || !timestamp || !signatureHeader || !req.rawBody) {
+    return res.status(401).json({ error: "Missing webhook signature" });
+  }
+
+  if (!isTimestampFresh(timestamp)) {
+    return res.status(401).json({ error: "Webhook timestamp outside tolerance" });
+  }
+
+  const key = Buffer.from(secret.replace(/^whsec_/, ""), "base64");
+  const expected = crypto
+    .createHmac("sha256", key)
+    .update(`${webhookId}.${timestamp}.`)
+    .update(req.rawBody)
+    .digest("base64");
+
+  const valid = signatureHeader
+    .split(" ")
+    .map((entry) => entry.split(","))
+    .some(([version, signature]) => version === "v1" && !!signature && safeEqual(signature, expected));
+
+  if (!valid) {
+    logger.warn(`Rejected OpenAI webhook ${webhookId}: invalid signature`);
+    return res.status(401).json({ error: "Invalid webhook signature" });
+  }
+
+  next();
+}
+
+/**
+ * Verify Cloudflare Stream webhooks: the Webhook-Signature header carries
+ * "time=<unix>,sig1=<hex>" where sig1 is HMAC-SHA256 over "{time}.{raw body}".
+ */
+export function verifyCloudflareWebhook(req: Request, res: Response, next: NextFunction) {
+  const secret = process.env.CLOUDFLARE_WEBHOOK_SECRET;
+  if (!secret) {
+    logger.error("CLOUDFLARE_WEBHOOK_SECRET is not configured, rejecting webhook");
+    return res.status(401).json({ error: "Webhook verification not configured" });
+  }
+
+  const signatureHeader = req.header("webhook-signature");
+  if (!signatureHeader || !req.rawBody) {
+    return res.status(401).json({ error: "Missing webhook signature" });
+  }
+
+  const parts = Object.fromEntries(
+    signatureHeader.split(",").map((part) => {
+      const [key, ...value] = part.split("=");
+      return [key?.trim(), value.join("=").trim()];
+    })
+  );
+
+  const time = parts.time;
+  const signature = parts.sig1;
+  if (!time || !signature) {
+    return res.status(401).json({ error: "Malformed webhook signature" });
+  }
+
+  if (!isTimestampFresh(time)) {
+    return res.status(401).json({ error: "Webhook timestamp outside tolerance" });
+  }
+
+  const expected = crypto
+    .createHmac("sha256", secret)
+    .update(`${time}.`)
+    .update(req.rawBody)
+    .digest("hex");
+
+  if (!safeEqual(signature, expected)) {
+    logger.warn("Rejected Cloudflare webhook: invalid signature");
+    return res.status(401).json({ error: "Invalid webhook signature" });
+  }
+
+  next();
+}
+
+function isTimestampFresh(timestamp: string): boolean {
+  const seconds = Number(timestamp);
+  return Number.isFinite(seconds) && Math.abs(Date.now() / 1000 - seconds) <= TIMESTAMP_TOLERANCE_SEC;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
@@ -1,5 +1,7 @@
 import { Router } from "express";
 import { authenticate } from "../middleware/auth.js";
+import { verifyOpenAIWebhook, verifyCloudflareWebhook } from "../middleware/webhookSignature.js";
+import { uploadImage } from "../middleware/upload.js";
 import { AuthController } from "../features/auth/AuthController.js";
 import { StoryController } from "../features/story/controllers/StoryController.js";
 import { ResponseController } from "../features/response/controllers/ResponseController.js";
@@ -40,11 +42,36 @@ router.get("/auth/profile", authenticate, authController.getProfile.bind(authCon
 router.post("/story/generate", authenticate, storyController.generateStory.bind(storyController));
 router.get("/story/voices", authenticate, storyController.getVoices.bind(storyController));
 
+//Story retrieval
+router.get("/stories", authenticate, storyController.listStories.bind(storyController));
+router.get("/stories/:id", authenticate, storyController.getStory.bind(storyController));
+router.get("/stories/:id/media", authenticate, storyController.getStoryMedia.bind(storyController));
+router.put("/stories/:id/cover", authenticate, storyController.setCover.bind(storyController));
+router.get("/stories/:id/captions.:format", authenticate, storyController.getCaptions.bind(storyController));
+router.get("/stories/:id/highlights", authenticate, storyController.listHighlights.bind(storyController));
+router.post("/stories/:id/highlights", authenticate, storyController.generateHighlights.bind(storyController));
+router.post("/stories/:id/audiogram", authenticate, storyController.generateAudiogram.bind(storyController));
+router.post("/stories/:id/regenerate", authenticate, storyController.regenerateStory.bind(storyController));
+
+//Script review
+router.patch("/stories/:id/script", authenticate, storyController.updateScript.bind(storyController));
+router.post("/stories/:id/approve", authenticate, storyController.approveScript.bind(storyController));
+
+//Story control
+router.post("/stories/:id/cancel", authenticate, storyController.cancelStory.bind(storyController));
+router.post("/stories/:id/retry", authenticate, storyController.retryStory.bind(storyController));
+
+//Shot editing
+router.post("/stories/:id/scenes/:sceneId/shots/:shotNumber/regenerate", authenticate, storyController.regenerateShot.bind(storyController));
+router.put("/stories/:id/scenes/:sceneId/shots/:shotNumber/image", authenticate, uploadImage, storyController.replaceShotImage.bind(storyController));
+
 //Response
-router.post("/webhook/openai", responseController.handleWebhook.bind(responseController));
-router.post("/webhook/cloudflare", responseController.handleCloudflareWebhook.bind(responseController));
+router.post("/webhook/openai", verifyOpenAIWebhook, responseController.handleWebhook.bind(responseController));
+router.post("/webhook/cloudflare", verifyCloudflareWebhook, responseController.handleCloudflareWebhook.bind(responseController));
 
 // Add authentication middleware
 router.post('/story/captions/:storyId', authenticate, subtitleController.generateCaptions.bind(subtitleController));
+router.get('/story/captions/:storyId', authenticate, subtitleController.listCaptions.bind(subtitleController));
+router.delete('/story/captions/:storyId/:language', authenticate, subtitleController.deleteCaption.bind(subtitleController));
 
 export default router;
@@ -0,0 +1,32 @@
+import prisma from "../lib/prisma.js";
+import redis from "../lib/redis.js";
+import { pipelineReconciler } from "../features/jobs/PipelineReconciler.js";
+import logger from "../utils/logger.js";
+
+// Run one reconcile pass immediately, optionally for a single story:
+//   npx tsx src/scripts/reconcilePipeline.ts [storyId]
+const storyId = process.argv[2];
+
+async function reconcile() {
+  try {
+    logger.info(storyId ? `Reconciling story: ${storyId}` : 'Reconciling all stories');
+
+    // Manual runs don't wait for work to look stuck
+    const summary = await pipelineReconciler.runOnce({
+      stuckAfterMs: 0,
+      ...(storyId ? { storyId } : {})
+    });
+
+    logger.info(`📊 Reconcile complete: ${JSON.stringify(summary)}`);
+  } finally {
+    await prisma.$disconnect();
+    redis.disconnect();
+  }
+}
+
+reconcile()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    logger.error(`Reconcile failed: ${error}`);
+    process.exit(1);
+  });
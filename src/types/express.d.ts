@@ -4,6 +4,7 @@ declare global {
   namespace Express {
     interface Request {
       user?: JwtPayload;
+      rawBody?: Buffer; // Unparsed request body, kept for webhook signature checks
     }
   }
 }
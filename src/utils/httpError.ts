@@ -0,0 +1,14 @@
+/**
+ * Error carrying an HTTP status, thrown by services so controllers can map
+ * expected failures (not found, invalid state, bad input) to the right response.
+ */
+export class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
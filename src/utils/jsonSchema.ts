@@ -0,0 +1,62 @@
+/**
+ * Minimal JSON Schema validator covering the subset we send to OpenAI as
+ * structured-output schemas (type, properties, required, additionalProperties,
+ * items, minItems, maxItems). Returns a list of human-readable errors.
+ */
+export function validateJsonSchema(schema: any, value: any, path: string = '$'): string[] {
+  const errors: string[] = [];
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push(`${path} must be an object`);
+        break;
+      }
+
+      const properties = schema.properties || {};
+      for (const key of schema.required || []) {
+        if (value[key] === undefined) {
+          errors.push(`${path}.${key} is required`);
+        }
+      }
+
+      for (const [key, propValue] of Object.entries(value)) {
+        if (properties[key]) {
+          errors.push(...validateJsonSchema(properties[key], propValue, `${path}.${key}`));
+        } else if (schema.additionalProperties === false) {
+          errors.push(`${path}.${key} is not allowed`);
+        }
+      }
+      break;
+    }
+    case 'array': {
+      if (!Array.isArray(value)) {
+        errors.push(`${path} must be an array`);
+        break;
+      }
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push(`${path} must have at least ${schema.minItems} items`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        errors.push(`${path} must have at most ${schema.maxItems} items`);
+      }
+      if (schema.items) {
+        value.forEach((item, index) => {
+          errors.push(...validateJsonSchema(schema.items, item, `${path}[${index}]`));
+        });
+      }
+      break;
+    }
+    case 'string':
+      if (typeof value !== 'string') errors.push(`${path} must be a string`);
+      break;
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) errors.push(`${path} must be a number`);
+      break;
+    case 'boolean':
+      if (typeof value !== 'boolean') errors.push(`${path} must be a boolean`);
+      break;
+  }
+
+  return errors;
+}